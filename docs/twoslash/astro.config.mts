@@ -56,6 +56,14 @@ export default defineConfig({
 							label: "Show Emitted Files",
 							link: "usage/show-emitted-files",
 						},
+						{
+							label: "Client API",
+							link: "usage/client-api",
+						},
+						{
+							label: "Localization",
+							link: "usage/localization",
+						},
 					],
 				},
 			],
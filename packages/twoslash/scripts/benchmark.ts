@@ -0,0 +1,80 @@
+import { readFile } from "node:fs/promises";
+import { performance } from "node:perf_hooks";
+import { ExpressiveCode } from "expressive-code";
+import { createTwoslasher } from "twoslash";
+import { ecConfig } from "../src/helpers/ec-config";
+import { buildPopupRendererGetter } from "../src/helpers/renderer";
+import { renderJSDocs, renderType } from "../src/helpers/rendering";
+import type { TwoslashPopupContent } from "../src/types";
+
+// Number of code blocks rendered per run, roughly a large documentation page
+const BLOCK_COUNT = 20;
+
+const code = await readFile("./scripts/fixtures/benchmark.ts", {
+	encoding: "utf8",
+});
+
+// Twoslash runs once, as both runs only differ in how the popups are rendered
+const twoslash = createTwoslasher()(code, "ts");
+const nodes: TwoslashPopupContent[] = [...twoslash.hovers, ...twoslash.queries];
+
+// The engine the plugin runs in, which the nested engines are configured from
+const config = new ExpressiveCode();
+
+/**
+ * Renders the popups of the fixture for `BLOCK_COUNT` code blocks and returns the elapsed time in milliseconds.
+ *
+ * @param renderBlock - Renders the popups of the next code block.
+ */
+async function run(renderBlock: () => Promise<void>): Promise<number> {
+	const start = performance.now();
+
+	for (let i = 0; i < BLOCK_COUNT; i++) {
+		await renderBlock();
+	}
+
+	return performance.now() - start;
+}
+
+/**
+ * Renders the popups like before: a new nested engine for every code block, and every popup rendered again.
+ */
+async function renderBlockBaseline() {
+	const ec = new ExpressiveCode(ecConfig(config));
+
+	for (const node of nodes) {
+		await renderType(node.text, ec);
+		await renderJSDocs(node, true, ec, false);
+	}
+}
+
+const getPopupRenderer = buildPopupRendererGetter(true, false);
+
+/**
+ * Renders the popups like the plugin does: with the nested engine of the config, and memoized popups.
+ */
+async function renderBlockShared() {
+	const renderer = getPopupRenderer(config);
+
+	for (const node of nodes) {
+		await renderer.render(node);
+	}
+}
+
+// Warm up Shiki, so that both runs start from the same state
+await renderBlockBaseline();
+
+const baseline = await run(renderBlockBaseline);
+const shared = await run(renderBlockShared);
+
+const format = (ms: number) =>
+	`${ms.toFixed(0)}ms total, ${(ms / BLOCK_COUNT).toFixed(1)}ms per block`;
+
+console.log(
+	`Rendered the ${nodes.length} popups of ${BLOCK_COUNT} code blocks:`,
+);
+console.log(`  Engine per block, no memoization: ${format(baseline)}`);
+console.log(`  Shared engine, memoized popups:   ${format(shared)}`);
+console.log(
+	`  Speedup:                          ${(baseline / shared).toFixed(2)}x`,
+);
@@ -0,0 +1,40 @@
+// Benchmark fixture: a typical documentation sample with many repeated hovers.
+
+/** A user of the application. */
+interface User {
+	/** The unique identifier of the user. */
+	id: number;
+	/** The display name of the user. */
+	name: string;
+	/** The email address of the user. */
+	email: string;
+}
+
+/**
+ * Creates a new user.
+ *
+ * @param id - The unique identifier of the user.
+ * @param name - The display name of the user.
+ * @returns The created user.
+ */
+function createUser(id: number, name: string): User {
+	return { id, name, email: `${name.toLowerCase()}@example.com` };
+}
+
+const users: User[] = [
+	createUser(1, "Ada"),
+	createUser(2, "Grace"),
+	createUser(3, "Linus"),
+	createUser(4, "Margaret"),
+	createUser(5, "Dennis"),
+];
+
+const names = users.map((user) => user.name);
+const emails = users.map((user) => user.email);
+const ids = users.map((user) => user.id);
+
+const byId = new Map(users.map((user) => [user.id, user]));
+const first = byId.get(1);
+//    ^?
+
+console.log(names, emails, ids, first?.name, first?.email);
@@ -6,7 +6,7 @@ import {
 import { h } from "@expressive-code/core/hast";
 import type { NodeCompletion } from "twoslash";
 import { getTextWidthInPixels } from "../helpers";
-import type { CompletionItem } from "../types";
+import type { CompletionItem, TwoslashPopup } from "../types";
 
 /**
  * Represents a completion annotation for Twoslash.
@@ -19,11 +19,14 @@ export class TwoslashCompletionAnnotation extends ExpressiveCodeAnnotation {
 	 *
 	 * @param completion - The completion item to be annotated.
 	 * @param query - The node completion query.
+	 * @param line - The line the completion is shown on.
+	 * @param details - The rendered details of the first completion item, if enabled.
 	 */
 	constructor(
 		readonly completion: CompletionItem,
 		readonly query: NodeCompletion,
 		readonly line: ExpressiveCodeLine,
+		readonly details?: TwoslashPopup,
 	) {
 		super({
 			inlineRange: {
@@ -61,13 +64,18 @@ export class TwoslashCompletionAnnotation extends ExpressiveCodeAnnotation {
 											item.isDeprecated
 												? "twoslash-completion-item-deprecated"
 												: ""
-										} ${index === 0 ? "" : "twoslash-completion-item-separator"}`,
+										} ${index === 0 ? "" : "twoslash-completion-item-separator"} ${
+											index === 0 && this.details
+												? "twoslash-completion-item-selected"
+												: ""
+										}`,
 									},
 									[
 										h(
 											"span.twoslash-completion-icon",
 											{
-												class: item.kind,
+												// The kind is kept for custom styles, the icon class is used by the default styles
+												class: `${item.kind} twoslash-completion-icon-${item.iconName}`,
 											},
 											item.icon,
 										),
@@ -89,6 +97,15 @@ export class TwoslashCompletionAnnotation extends ExpressiveCodeAnnotation {
 								);
 							}),
 						]),
+						this.details
+							? h("div.twoslash-completion-details.not-content", [
+									h("code.twoslash-popup-code", [
+										h("span.twoslash-popup-code-type", this.details.codeType),
+									]),
+									this.details.renderedDocs.docs,
+									this.details.renderedDocs.tags,
+								])
+							: [],
 					],
 				),
 			]);
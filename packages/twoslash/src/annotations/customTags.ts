@@ -5,9 +5,17 @@ import {
 } from "@expressive-code/core";
 import { type Element, h } from "@expressive-code/core/hast";
 import type { NodeTag } from "twoslash";
-import { getCustomTagClass, getCustomTagString } from "../helpers";
+import {
+	getCustomTagClass,
+	getCustomTagColorClass,
+	getCustomTagString,
+} from "../helpers";
 import { customTagsIcons } from "../icons/customTagsIcons";
-import type { CustomTagsIcon, TwoslashTag } from "../types";
+import type {
+	CustomTagsIcon,
+	TwoslashCustomTagRenderer,
+	TwoslashTexts,
+} from "../types";
 
 /**
  * Represents a custom annotation for Twoslash tags.
@@ -19,10 +27,15 @@ export class TwoslashCustomTagsAnnotation extends ExpressiveCodeAnnotation {
 	/**
 	 * Creates an instance of TwoslashCustomTagsAnnotation.
 	 * @param tag - The NodeTag object representing the Twoslash tag.
+	 * @param line - The line the tag is shown below.
+	 * @param texts - The texts in the locale of the code block.
+	 * @param renderer - The renderer configured for the tag, if any.
 	 */
 	constructor(
 		readonly tag: NodeTag,
 		readonly line: ExpressiveCodeLine,
+		readonly texts: TwoslashTexts,
+		readonly renderer?: TwoslashCustomTagRenderer,
 	) {
 		super({
 			inlineRange: {
@@ -33,30 +46,47 @@ export class TwoslashCustomTagsAnnotation extends ExpressiveCodeAnnotation {
 	}
 
 	render({ nodesToTransform }: AnnotationRenderOptions): Element[] {
-		const tag = this.tag;
-		const customTagClass = getCustomTagClass(tag.name as TwoslashTag);
+		const { tag, renderer } = this;
 
 		return nodesToTransform.map((node) => {
 			return h("span.twoslash.twocustom", [
-				h(
-					"div.twoslash-custom-box",
-					{
-						class: customTagClass,
-					},
-					[
-						h("span.twoslash-custom-box-icon", [
-							customTagsIcons[tag.name as CustomTagsIcon],
-						]),
-						h("span.twoslash-custom-box-content", [
-							h("span.twoslash-custom-box-content-title", [
-								`${getCustomTagString(tag.name as TwoslashTag)}:`,
-							]),
-							h("span.twoslash-custom-box-content-message", [` ${tag.text}`]),
-						]),
-					],
-				),
+				renderer?.render ? renderer.render(tag) : this.renderBox(),
 				node,
 			]);
 		});
 	}
+
+	/**
+	 * Renders the default box of the tag, using the label, icon and color of its renderer if provided.
+	 */
+	private renderBox(): Element {
+		const { tag, renderer } = this;
+
+		const customTagClass = renderer?.color
+			? getCustomTagColorClass(tag.name)
+			: getCustomTagClass(tag.name);
+		const icon =
+			renderer?.icon ??
+			customTagsIcons[tag.name as CustomTagsIcon] ??
+			customTagsIcons.log;
+
+		return h(
+			"div.twoslash-custom-box",
+			{
+				class: customTagClass,
+				role: "note",
+				"aria-label":
+					renderer?.label ?? getCustomTagString(tag.name, this.texts),
+			},
+			[
+				h("span.twoslash-custom-box-icon", { "aria-hidden": "true" }, [icon]),
+				h("span.twoslash-custom-box-content", [
+					h("span.twoslash-custom-box-content-title", [
+						`${renderer?.label ?? getCustomTagString(tag.name, this.texts)}:`,
+					]),
+					h("span.twoslash-custom-box-content-message", [` ${tag.text}`]),
+				]),
+			],
+		);
+	}
 }
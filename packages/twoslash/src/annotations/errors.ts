@@ -5,12 +5,31 @@ import {
 } from "@expressive-code/core";
 import { type Element, h } from "@expressive-code/core/hast";
 import type { NodeError } from "twoslash";
-import { getErrorLevelClass, getErrorLevelString } from "../helpers";
+import {
+	getErrorLevelClass,
+	getErrorLevelString,
+	parseMessageChain,
+} from "../helpers";
+import type {
+	NodeErrorWithRelatedInformation,
+	TwoslashMessageChain,
+	TwoslashRelatedInformation,
+	TwoslashTexts,
+} from "../types";
 
 export class TwoslashErrorUnderlineAnnotation extends ExpressiveCodeAnnotation {
 	readonly name = "twoslash-error-underline";
 
-	constructor(readonly error: NodeError) {
+	/**
+	 * Creates an instance of `TwoslashErrorUnderlineAnnotation`.
+	 *
+	 * @param error - The error object containing error details.
+	 * @param popup - The error box shown in a popup when the underline is hovered, if any.
+	 */
+	constructor(
+		readonly error: NodeError,
+		readonly popup?: Element,
+	) {
 		super({
 			inlineRange: {
 				columnStart: error.character,
@@ -21,6 +40,15 @@ export class TwoslashErrorUnderlineAnnotation extends ExpressiveCodeAnnotation {
 
 	render({ nodesToTransform }: AnnotationRenderOptions): Element[] {
 		return nodesToTransform.map((node) => {
+			if (this.popup) {
+				return h("span.twoslash.twoslash-error-underline", [
+					h("span.twoslash-hover", [
+						h("div.twoslash-popup-container.not-content", [this.popup]),
+						node,
+					]),
+				]);
+			}
+
 			return h("span.twoslash.twoslash-error-underline", [node]);
 		});
 	}
@@ -38,10 +66,18 @@ export class TwoslashErrorBoxAnnotation extends ExpressiveCodeAnnotation {
 	 *
 	 * @param error - The error object containing error details.
 	 * @param line - The line of code where the error occurred.
+	 * @param texts - The texts in the locale of the code block.
+	 * @param codeUrl - The URL of the explanation page of the error code, if any.
+	 * @param explanation - A short explanation of the error code, if any.
+	 * @param relatedAnchors - The ids of the lines the related information of the error links to.
 	 */
 	constructor(
-		readonly error: NodeError,
+		readonly error: NodeErrorWithRelatedInformation,
 		readonly line: ExpressiveCodeLine,
+		readonly texts: TwoslashTexts,
+		readonly codeUrl?: string,
+		readonly explanation?: string,
+		readonly relatedAnchors: (string | undefined)[] = [],
 	) {
 		super({
 			inlineRange: {
@@ -57,25 +93,268 @@ export class TwoslashErrorBoxAnnotation extends ExpressiveCodeAnnotation {
 	 * @param nodesToTransform - The nodes to transform with the error box annotation.
 	 * @returns An array of transformed nodes with the error box annotation.
 	 */
+	render({ nodesToTransform }: AnnotationRenderOptions): Element[] {
+		return nodesToTransform.map((node) => {
+			return h("span.twoslash.twoerror", [
+				node,
+				renderErrorBox(
+					this.error,
+					this.texts,
+					this.codeUrl,
+					this.explanation,
+					this.relatedAnchors,
+				),
+			]);
+		});
+	}
+}
+
+/**
+ * Represents an annotation for displaying a short error message at the end of its line.
+ * Extends the `ExpressiveCodeAnnotation` class.
+ */
+export class TwoslashErrorInlineAnnotation extends ExpressiveCodeAnnotation {
+	readonly name = "twoslash-error-inline";
+
+	/**
+	 * Creates an instance of `TwoslashErrorInlineAnnotation`.
+	 *
+	 * @param error - The error object containing error details.
+	 * @param line - The line of code where the error occurred.
+	 * @param texts - The texts in the locale of the code block.
+	 */
+	constructor(
+		readonly error: NodeError,
+		readonly line: ExpressiveCodeLine,
+		readonly texts: TwoslashTexts,
+	) {
+		super({
+			inlineRange: {
+				columnStart: line.text.length,
+				columnEnd: line.text.length + error.length,
+			},
+		});
+	}
+
+	/**
+	 * Renders the first message of the error, which is truncated by the styles if it is too long.
+	 * The full message is shown as the title of the hint.
+	 *
+	 * @param nodesToTransform - The nodes to transform with the inline error annotation.
+	 * @returns An array of transformed nodes with the inline error annotation.
+	 */
 	render({ nodesToTransform }: AnnotationRenderOptions): Element[] {
 		const error = this.error;
-		const errorLevelClass = getErrorLevelClass(error);
+		const [message] = parseMessageChain(error.text);
+
+		return nodesToTransform.map((node) => {
+			return h("span.twoslash.twoslash-error-inline-line", [
+				node,
+				h(
+					"span.twoslash-error-inline",
+					{
+						class: getErrorLevelClass(error),
+						role: "note",
+						"aria-label": getErrorLevelString(error, this.texts),
+						title: error.text,
+					},
+					message?.text ?? error.text,
+				),
+			]);
+		});
+	}
+}
+
+/**
+ * Renders the box of an error, with its level, code, message chain, related information and explanation.
+ *
+ * @param error - The error object containing error details.
+ * @param texts - The texts in the locale of the code block.
+ * @param codeUrl - The URL of the explanation page of the error code, if any.
+ * @param explanation - A short explanation of the error code, if any.
+ * @param relatedAnchors - The ids of the lines the related information of the error links to.
+ * @returns The error box element.
+ */
+export function renderErrorBox(
+	error: NodeErrorWithRelatedInformation,
+	texts: TwoslashTexts,
+	codeUrl?: string,
+	explanation?: string,
+	relatedAnchors: (string | undefined)[] = [],
+): Element {
+	const code = `ts(${error.code})`;
+	const messages = parseMessageChain(error.text);
+	const isChain = messages.length > 1 || messages[0]?.next.length > 0;
+
+	return h(
+		"div.twoslash-error-box",
+		{
+			class: getErrorLevelClass(error),
+			role: "note",
+			"aria-label": getErrorLevelString(error, texts),
+		},
+		[
+			h("span.twoslash-error-box-icon", { "aria-hidden": "true" }),
+			h("span.twoslash-error-box-content", [
+				h("span.twoslash-error-box-content-title", [
+					`${getErrorLevelString(error, texts)} `,
+					...(error.code
+						? [
+								codeUrl
+									? h(
+											"a.twoslash-error-box-code",
+											{
+												href: codeUrl,
+												target: "_blank",
+												rel: "noopener",
+											},
+											code,
+										)
+									: code,
+								" ",
+							]
+						: []),
+					" ― ",
+				]),
+				h(
+					"span.twoslash-error-box-content-message",
+					isChain ? renderMessageChain(messages) : [error.text],
+				),
+				error.related?.length
+					? h(
+							"ul.twoslash-error-box-related",
+							error.related.map((info, index) =>
+								renderRelatedInformation(info, relatedAnchors[index]),
+							),
+						)
+					: [],
+				explanation
+					? h("details.twoslash-error-box-explanation", [
+							h("summary", texts.errorExplanation),
+							h("p", renderInlineCode(explanation)),
+						])
+					: [],
+			]),
+		],
+	);
+}
+
+/**
+ * Renders a diagnostic message chain as a tree, where each message with nested messages can be collapsed.
+ *
+ * @param messages - The messages to render.
+ * @returns The rendered messages.
+ */
+function renderMessageChain(messages: TwoslashMessageChain[]): Element[] {
+	return messages.map((message) =>
+		message.next.length
+			? h("details.twoslash-error-chain", { open: true }, [
+					h("summary", message.text),
+					h("div.twoslash-error-chain-next", renderMessageChain(message.next)),
+				])
+			: h("div.twoslash-error-chain-message", message.text),
+	);
+}
+
+/**
+ * Renders a location related to an error, linking to its line if it is shown in the code block.
+ *
+ * @param info - The related information to render.
+ * @param anchor - The id of the line of the location, if it can be linked to.
+ * @returns The rendered list item.
+ */
+function renderRelatedInformation(
+	info: TwoslashRelatedInformation,
+	anchor: string | undefined,
+): Element {
+	const location =
+		info.filename && info.line !== undefined
+			? `${info.filename}:${info.line + 1}:${(info.character ?? 0) + 1}`
+			: info.filename;
+
+	return h("li", [
+		location
+			? [
+					anchor
+						? h(
+								"a.twoslash-error-box-related-location",
+								{ href: `#${anchor}` },
+								location,
+							)
+						: h("span.twoslash-error-box-related-location", location),
+					" ― ",
+				]
+			: [],
+		info.text,
+	]);
+}
+
+/**
+ * Renders a text where code is wrapped in backticks, like the bundled error explanations.
+ *
+ * @param text - The text to render.
+ * @returns The text and `code` elements.
+ */
+function renderInlineCode(text: string): (Element | string)[] {
+	return text
+		.split(/`([^`]+)`/)
+		.map((part, index) => (index % 2 === 1 ? h("code", part) : part))
+		.filter((part) => part !== "");
+}
+
+/**
+ * Represents an annotation for displaying an error that prevented Twoslash from processing a code block.
+ * Extends the `ExpressiveCodeAnnotation` class.
+ */
+export class TwoslashProcessingErrorAnnotation extends ExpressiveCodeAnnotation {
+	readonly name = "twoslash-processing-error";
+
+	/**
+	 * Creates an instance of `TwoslashProcessingErrorAnnotation`.
+	 *
+	 * @param title - The title of the error.
+	 * @param description - The description of what failed.
+	 * @param line - The last line of the code block, the error box is rendered after it.
+	 * @param texts - The texts in the locale of the code block.
+	 */
+	constructor(
+		readonly title: string,
+		readonly description: string,
+		readonly line: ExpressiveCodeLine,
+		readonly texts: TwoslashTexts,
+	) {
+		super({
+			inlineRange: {
+				columnStart: line.text.length,
+				columnEnd: line.text.length + 1,
+			},
+		});
+	}
 
+	/**
+	 * Renders the processing error annotation.
+	 *
+	 * @param nodesToTransform - The nodes to transform with the processing error annotation.
+	 * @returns An array of transformed nodes with the processing error annotation.
+	 */
+	render({ nodesToTransform }: AnnotationRenderOptions): Element[] {
 		return nodesToTransform.map((node) => {
 			return h("span.twoslash.twoerror", [
 				node,
 				h(
-					"div.twoslash-error-box",
+					"div.twoslash-error-box.twoslash-processing-error",
 					{
-						class: errorLevelClass,
+						class: "twoslash-error-level-error",
+						role: "note",
+						"aria-label": this.texts.processingError,
 					},
 					[
-						h("span.twoslash-error-box-icon"),
+						h("span.twoslash-error-box-icon", { "aria-hidden": "true" }),
 						h("span.twoslash-error-box-content", [
 							h("span.twoslash-error-box-content-title", [
-								`${getErrorLevelString(error)} ${error.code && `ts(${error.code}) `} ― `,
+								`Twoslash ― ${this.title}`,
 							]),
-							h("span.twoslash-error-box-content-message", [error.text]),
+							h("span.twoslash-error-box-content-message", [this.description]),
 						]),
 					],
 				),
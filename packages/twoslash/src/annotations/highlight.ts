@@ -13,13 +13,13 @@ export class TwoslashHighlightAnnotation extends ExpressiveCodeAnnotation {
 	readonly name = "twoslash-highlight-annotation";
 	/**
 	 * Creates an instance of `TwoslashHighlightAnnotation`.
-	 * @param highlight - The highlight details including start position and length.
+	 * @param highlight - The highlight details including character position and length.
 	 */
 	constructor(readonly highlight: NodeHighlight) {
 		super({
 			inlineRange: {
-				columnStart: highlight.start,
-				columnEnd: highlight.start + highlight.length,
+				columnStart: highlight.character,
+				columnEnd: highlight.character + highlight.length,
 			},
 		});
 	}
@@ -4,7 +4,68 @@ import {
 } from "@expressive-code/core";
 import { type Element, type Root, h } from "@expressive-code/core/hast";
 import type { NodeHover } from "twoslash";
-import type { RenderJSDocs } from "../types";
+import type { RenderJSDocs, TwoslashTexts } from "../types";
+
+/**
+ * Renders the action bar of a popup, with buttons to copy its type and a link to it.
+ *
+ * The buttons are handled by the client script, which looks up the anchor of the popup when a link is copied.
+ *
+ * @param text - The type information shown in the popup.
+ * @param texts - The texts in the locale of the code block.
+ * @returns The action bar element.
+ */
+export function renderPopupActions(
+	text: string,
+	texts: TwoslashTexts,
+): Element {
+	return h("div.twoslash-popup-actions", [
+		h(
+			"button.twoslash-popup-action",
+			{
+				type: "button",
+				"data-twoslash-action": "copy-type",
+				"data-copy": text,
+				"data-copied": texts.copied,
+			},
+			texts.copyType,
+		),
+		h(
+			"button.twoslash-popup-action",
+			{
+				type: "button",
+				"data-twoslash-action": "copy-link",
+				"data-copied": texts.copied,
+			},
+			texts.copyLink,
+		),
+	]);
+}
+
+/**
+ * Renders the popup container of a hover.
+ *
+ * @param codeType - The rendered type information.
+ * @param renderedDocs - The rendered JSDoc documentation and tags.
+ * @param texts - The texts in the locale of the code block.
+ * @param text - The type information, to show an action bar for. No action bar is shown if omitted.
+ * @returns The popup container element.
+ */
+export function renderHoverPopup(
+	codeType: Element,
+	renderedDocs: RenderJSDocs,
+	texts: TwoslashTexts,
+	text?: string,
+): Element {
+	return h("div.twoslash-popup-container.not-content", [
+		h("code.twoslash-popup-code", [
+			h("span.twoslash-popup-code-type", codeType),
+		]),
+		renderedDocs.docs,
+		renderedDocs.tags,
+		text !== undefined ? renderPopupActions(text, texts) : [],
+	]);
+}
 
 /**
  * Represents a hover annotation for Twoslash.
@@ -15,11 +76,19 @@ export class TwoslashHoverAnnotation extends ExpressiveCodeAnnotation {
 	/**
 	 * Creates an instance of `TwoslashHoverAnnotation`.
 	 * @param hover - The hover information including character position and text.
+	 * @param codeType - The rendered type information.
+	 * @param renderedDocs - The rendered JSDoc documentation and tags.
+	 * @param texts - The texts in the locale of the code block.
+	 * @param popupId - The id of the popup in the island of the code block. If set, the popup is not rendered inline.
+	 * @param anchor - The id of the hover, to link to it. If set, the popup has an action bar.
 	 */
 	constructor(
 		readonly hover: NodeHover,
 		readonly codeType: Element,
 		readonly renderedDocs: RenderJSDocs,
+		readonly texts: TwoslashTexts,
+		readonly popupId?: string,
+		readonly anchor?: string,
 	) {
 		super({
 			inlineRange: {
@@ -37,18 +106,23 @@ export class TwoslashHoverAnnotation extends ExpressiveCodeAnnotation {
 	render({ nodesToTransform }: AnnotationRenderOptions): (Root | Element)[] {
 		return nodesToTransform.map((node) => {
 			if (node.type === "element") {
-				return h("span.twoslash", node.properties, [
-					h("span.twoslash-hover", [
+				if (this.popupId) {
+					return h("span.twoslash", node.properties, [
 						h(
-							"div.twoslash-popup-container.not-content",
+							"span.twoslash-hover",
+							{ id: this.anchor, "data-twoslash-popup": this.popupId },
+							[node],
+						),
+					]);
+				}
 
-							[
-								h("code.twoslash-popup-code", [
-									h("span.twoslash-popup-code-type", this.codeType),
-								]),
-								this.renderedDocs.docs,
-								this.renderedDocs.tags,
-							],
+				return h("span.twoslash", node.properties, [
+					h("span.twoslash-hover", { id: this.anchor }, [
+						renderHoverPopup(
+							this.codeType,
+							this.renderedDocs,
+							this.texts,
+							this.anchor !== undefined ? this.hover.text : undefined,
 						),
 						node,
 					]),
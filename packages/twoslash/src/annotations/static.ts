@@ -6,7 +6,8 @@ import {
 import { type Element, h } from "@expressive-code/core/hast";
 import type { NodeQuery } from "twoslash";
 import { getTextWidthInPixels } from "../helpers";
-import type { RenderJSDocs } from "../types";
+import type { RenderJSDocs, TwoslashTexts } from "../types";
+import { renderPopupActions } from "./hover";
 
 /**
  * Represents a static annotation for Twoslash.
@@ -21,12 +22,16 @@ export class TwoslashStaticAnnotation extends ExpressiveCodeAnnotation {
 	 * @param line - The line of code associated with the annotation.
 	 * @param includeJsDoc - A flag indicating whether to include JSDoc comments.
 	 * @param query - The query information for the node.
+	 * @param texts - The texts in the locale of the code block.
+	 * @param anchor - The id of the popup, to link to it. If set, the popup has an action bar.
 	 */
 	constructor(
 		readonly query: NodeQuery,
 		readonly line: ExpressiveCodeLine,
 		readonly codeType: Element,
 		readonly renderedDocs: RenderJSDocs,
+		readonly texts: TwoslashTexts,
+		readonly anchor?: string,
 	) {
 		super({
 			inlineRange: {
@@ -53,13 +58,20 @@ export class TwoslashStaticAnnotation extends ExpressiveCodeAnnotation {
 						},
 					},
 					[
-						h("div.twoslash-static-container.not-content", [
-							h("code.twoslash-popup-code", [
-								h("span.twoslash-popup-code-type", this.codeType),
-							]),
-							this.renderedDocs.docs,
-							this.renderedDocs.tags,
-						]),
+						h(
+							"div.twoslash-static-container.not-content",
+							{ id: this.anchor },
+							[
+								h("code.twoslash-popup-code", [
+									h("span.twoslash-popup-code-type", this.codeType),
+								]),
+								this.renderedDocs.docs,
+								this.renderedDocs.tags,
+								this.anchor !== undefined
+									? renderPopupActions(this.query.text, this.texts)
+									: [],
+							],
+						),
 					],
 				),
 			]);
@@ -0,0 +1,170 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, stat, writeFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import type { TwoslashReturn } from "twoslash";
+import type {
+	TwoslashCacheEntry,
+	TwoslashCacheOptions,
+	TwoslashCachedReturn,
+} from "../types";
+
+/**
+ * Default directory used to store the Twoslash cache, relative to the current working directory.
+ */
+export const defaultCacheDir = "node_modules/.cache/expressive-code-twoslash";
+
+/**
+ * Increased whenever the shape of the cache entries changes, so that old entries are ignored.
+ */
+const CACHE_FORMAT_VERSION = 2;
+
+/**
+ * A content-addressed on-disk cache for Twoslash results and their rendered popups.
+ *
+ * Every entry is stored as a JSON file named after the hash of its key parts.
+ */
+export class TwoslashCache {
+	readonly dir: string;
+	readonly salt: string;
+	readonly maxAge: number | undefined;
+
+	/**
+	 * Creates an instance of TwoslashCache.
+	 *
+	 * @param options - The cache options provided by the user.
+	 */
+	constructor(options: TwoslashCacheOptions = {}) {
+		this.dir = resolve(options.dir ?? defaultCacheDir);
+		this.salt = options.key ?? "";
+		this.maxAge = options.maxAge;
+	}
+
+	/**
+	 * Creates a cache key from the given parts.
+	 *
+	 * @param parts - Any values that influence the cached result, see `hash`.
+	 * @returns A hex encoded SHA-256 hash of the parts.
+	 */
+	getKey(...parts: unknown[]): string {
+		return hash([CACHE_FORMAT_VERSION, this.salt, ...parts]);
+	}
+
+	/**
+	 * Reads an entry from the cache.
+	 *
+	 * @param key - The key of the entry, as returned by `getKey`.
+	 * @returns The cached entry, or `undefined` if it does not exist, is expired or cannot be read.
+	 */
+	async get(key: string): Promise<TwoslashCacheEntry | undefined> {
+		const file = this.getFilePath(key);
+
+		try {
+			if (this.maxAge !== undefined) {
+				const { mtimeMs } = await stat(file);
+				if (Date.now() - mtimeMs > this.maxAge) return undefined;
+			}
+
+			return JSON.parse(await readFile(file, "utf8")) as TwoslashCacheEntry;
+		} catch {
+			return undefined;
+		}
+	}
+
+	/**
+	 * Writes an entry to the cache.
+	 *
+	 * The entry is written to a temporary file first and then renamed, so that
+	 * concurrent builds never read a partially written entry.
+	 *
+	 * @param key - The key of the entry, as returned by `getKey`.
+	 * @param entry - The entry to store.
+	 */
+	async set(key: string, entry: TwoslashCacheEntry): Promise<void> {
+		const file = this.getFilePath(key);
+		const tempFile = `${file}.${process.pid}.tmp`;
+
+		await mkdir(this.dir, { recursive: true });
+		await writeFile(tempFile, JSON.stringify(entry), "utf8");
+		await rename(tempFile, file);
+	}
+
+	/**
+	 * Returns the path of the file used to store the entry with the given key.
+	 */
+	private getFilePath(key: string): string {
+		return join(this.dir, `${key}.json`);
+	}
+}
+
+/**
+ * Creates a hex encoded SHA-256 hash of the JSON representation of the given value.
+ *
+ * Functions are represented by their source, and maps by their entries, so options like
+ * `linkResolver` or `twoslashOptions.fsMap` change the hash when they change.
+ *
+ * @param value - The value to hash.
+ * @returns The hash of the value.
+ */
+export function hash(value: unknown): string {
+	return createHash("sha256")
+		.update(JSON.stringify(value, hashReplacer))
+		.digest("hex");
+}
+
+/**
+ * Converts values that `JSON.stringify` would drop or fail on into a JSON serializable form.
+ */
+function hashReplacer(_key: string, value: unknown): unknown {
+	if (typeof value === "function") return `function:${value.toString()}`;
+	if (value instanceof Map) return [...value.entries()];
+	if (typeof value === "bigint") return value.toString();
+	return value;
+}
+
+/**
+ * Converts a Twoslash result into a JSON serializable object.
+ *
+ * @param twoslash - The result returned by the twoslasher.
+ * @returns The serializable part of the result.
+ */
+export function serializeTwoslashReturn(
+	twoslash: TwoslashReturn,
+): TwoslashCachedReturn {
+	return {
+		code: twoslash.code,
+		nodes: twoslash.nodes,
+		meta: twoslash.meta,
+	};
+}
+
+/**
+ * Restores a Twoslash result from its serialized form, re-creating the node getters.
+ *
+ * @param cached - The serialized result read from the cache.
+ * @returns A result that can be used in place of the one returned by the twoslasher.
+ */
+export function restoreTwoslashReturn(
+	cached: TwoslashCachedReturn,
+): TwoslashReturn {
+	return {
+		...cached,
+		get queries() {
+			return this.nodes.filter((i) => i.type === "query");
+		},
+		get completions() {
+			return this.nodes.filter((i) => i.type === "completion");
+		},
+		get errors() {
+			return this.nodes.filter((i) => i.type === "error");
+		},
+		get highlights() {
+			return this.nodes.filter((i) => i.type === "highlight");
+		},
+		get hovers() {
+			return this.nodes.filter((i) => i.type === "hover");
+		},
+		get tags() {
+			return this.nodes.filter((i) => i.type === "tag");
+		},
+	};
+}
@@ -0,0 +1,135 @@
+import type ts from "typescript";
+import type {
+	CompletionEntryWithDetails,
+	TwoslashCompletionOptions,
+} from "../types";
+
+/**
+ * Default number of items shown in a completion list.
+ */
+export const defaultCompletionLimit = 5;
+
+/**
+ * Selects the completion entries to show, according to the completion options.
+ *
+ * @param entries - The completion entries returned by the language service.
+ * @param prefix - The prefix typed before the cursor.
+ * @param options - The completion options provided by the user.
+ * @returns The filtered, sorted and limited entries.
+ */
+export function selectCompletionEntries<T extends ts.CompletionEntry>(
+	entries: readonly T[],
+	prefix: string,
+	{
+		limit = defaultCompletionLimit,
+		filterByPrefix = false,
+		sort = "default",
+	}: TwoslashCompletionOptions = {},
+): T[] {
+	let selected = [...entries];
+
+	// Trigger characters like `.` are reported as prefix, but are not part of the names
+	if (filterByPrefix && /^[$\w]+$/.test(prefix)) {
+		selected = selected.filter((entry) => entry.name.startsWith(prefix));
+	}
+
+	if (sort === "sortText") {
+		selected.sort(
+			(a, b) =>
+				a.sortText.localeCompare(b.sortText) || a.name.localeCompare(b.name),
+		);
+	} else if (sort === "name") {
+		selected.sort((a, b) => a.name.localeCompare(b.name));
+	}
+
+	return selected.slice(0, limit);
+}
+
+/**
+ * Wraps a TypeScript module, so that its language services return the first shown entry of each
+ * completion result with its details (signature and documentation).
+ *
+ * Twoslash clears its virtual files after each run, so the details have to be
+ * requested while the completions are requested.
+ *
+ * @param tsModule - The TypeScript module used by Twoslash.
+ * @param options - The completion options provided by the user.
+ * @returns A TypeScript module to pass to Twoslash.
+ */
+export function withCompletionDetails(
+	tsModule: typeof ts,
+	options: TwoslashCompletionOptions,
+): typeof ts {
+	function createLanguageService(
+		...args: Parameters<typeof ts.createLanguageService>
+	): ts.LanguageService {
+		const ls = tsModule.createLanguageService(...args);
+
+		return {
+			...ls,
+			getCompletionsAtPosition(fileName, position, completionOptions, ...rest) {
+				const result = ls.getCompletionsAtPosition(
+					fileName,
+					position,
+					completionOptions,
+					...rest,
+				);
+				if (!result) return result;
+
+				// Twoslash requests identifier completions one character before the cursor
+				const isInvoked =
+					completionOptions?.triggerKind ===
+					tsModule.CompletionTriggerKind.Invoked;
+				const end = isInvoked ? position + 1 : position;
+				const text = ls.getProgram()?.getSourceFile(fileName)?.text ?? "";
+				const prefix = text.slice(0, end).match(/[$\w]+$/)?.[0] ?? "";
+
+				// Twoslash only keeps the identifier completions matching the prefix
+				const entries = isInvoked
+					? result.entries.filter((entry) => entry.name.startsWith(prefix))
+					: result.entries;
+
+				const [entry] = selectCompletionEntries(entries, prefix, options);
+				if (!entry) return result;
+
+				const details = ls.getCompletionEntryDetails(
+					fileName,
+					position,
+					entry.name,
+					undefined,
+					entry.source,
+					undefined,
+					entry.data,
+				);
+				if (!details) return result;
+
+				const docs = tsModule.displayPartsToString(details.documentation);
+				const tags = details.tags?.map((tag): [string, string | undefined] => [
+					tag.name,
+					tag.text?.map((part) => part.text).join(""),
+				]);
+
+				// The entries of the language service are left untouched, the result gets a copy with the details
+				const entryWithDetails: CompletionEntryWithDetails = {
+					...entry,
+					details: {
+						text: tsModule.displayPartsToString(details.displayParts),
+						...(docs && { docs }),
+						...(tags && { tags }),
+					},
+				};
+
+				return {
+					...result,
+					entries: result.entries.map((resultEntry) =>
+						resultEntry === entry ? entryWithDetails : resultEntry,
+					),
+				};
+			},
+		};
+	}
+
+	return Object.create(tsModule, {
+		createLanguageService: { value: createLanguageService },
+	});
+}
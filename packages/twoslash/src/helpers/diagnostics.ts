@@ -0,0 +1,232 @@
+import { basename, dirname, join } from "node:path";
+import type { TwoslashReturn } from "twoslash";
+import type ts from "typescript";
+import type {
+	NodeErrorWithRelatedInformation,
+	TwoslashMessageChain,
+	TwoslashRelatedInformation,
+} from "../types";
+
+/**
+ * Wraps a TypeScript module, so that its language services record the diagnostics
+ * that have related information (e.g. "'x' is declared here.").
+ *
+ * Twoslash only keeps the message of each diagnostic, so the related information has to be
+ * recorded while Twoslash requests the diagnostics, and attached to its errors afterwards.
+ *
+ * @param tsModule - The TypeScript module used by Twoslash.
+ * @param diagnostics - The array the diagnostics are added to.
+ * @returns A TypeScript module to pass to Twoslash.
+ */
+export function withDiagnosticsRecorder(
+	tsModule: typeof ts,
+	diagnostics: ts.Diagnostic[],
+): typeof ts {
+	function createLanguageService(
+		...args: Parameters<typeof ts.createLanguageService>
+	): ts.LanguageService {
+		const ls = tsModule.createLanguageService(...args);
+
+		const record = <T extends ts.Diagnostic>(result: T[]): T[] => {
+			diagnostics.push(
+				...result.filter((diagnostic) => diagnostic.relatedInformation?.length),
+			);
+			return result;
+		};
+
+		return {
+			...ls,
+			getSemanticDiagnostics: (fileName) =>
+				record(ls.getSemanticDiagnostics(fileName)),
+			getSyntacticDiagnostics: (fileName) =>
+				record(ls.getSyntacticDiagnostics(fileName)),
+		};
+	}
+
+	return Object.create(tsModule, {
+		createLanguageService: { value: createLanguageService },
+	});
+}
+
+/**
+ * Attaches the related information of the recorded diagnostics to the errors of a Twoslash result.
+ *
+ * Locations in the code block are converted to lines of the output code, so they can be linked to.
+ *
+ * @param twoslash - The result returned by the twoslasher.
+ * @param diagnostics - The diagnostics recorded while the twoslasher ran.
+ * @param tsModule - The TypeScript module used by Twoslash.
+ */
+export function attachRelatedInformation(
+	twoslash: TwoslashReturn,
+	diagnostics: readonly ts.Diagnostic[],
+	tsModule: typeof ts,
+): void {
+	const { virtualFiles, removals } = twoslash.meta;
+
+	/**
+	 * Returns the position of a location in the code passed to Twoslash, if it is part of a virtual file.
+	 */
+	const toCodePosition = (file: ts.SourceFile | undefined, start: number) => {
+		const virtualFile = virtualFiles.find(
+			(virtualFile) => virtualFile.filepath === file?.fileName,
+		);
+		if (!virtualFile) return;
+
+		return {
+			filename: virtualFile.filename,
+			index: start + virtualFile.offset - (virtualFile.prepend?.length ?? 0),
+		};
+	};
+
+	const related = new Map<string, TwoslashRelatedInformation[]>();
+
+	for (const diagnostic of diagnostics) {
+		const position = toCodePosition(diagnostic.file, diagnostic.start ?? 0);
+		if (!position || !diagnostic.relatedInformation) continue;
+
+		// The same id Twoslash gives the error of the diagnostic
+		const id = `err-${diagnostic.code}-${position.index}-${diagnostic.length}`;
+
+		related.set(
+			id,
+			diagnostic.relatedInformation.map((info) => {
+				const text = tsModule.flattenDiagnosticMessageText(
+					info.messageText,
+					"\n",
+				);
+				const start = info.start ?? 0;
+				const infoPosition = toCodePosition(info.file, start);
+				const outputIndex = infoPosition
+					? toOutputIndex(infoPosition.index, removals)
+					: undefined;
+
+				if (infoPosition && outputIndex !== undefined) {
+					return {
+						text,
+						filename: infoPosition.filename,
+						...indexToLineAndCharacter(twoslash.code, outputIndex),
+						inCodeBlock: true,
+					};
+				}
+
+				if (!info.file) return { text };
+
+				return {
+					text,
+					filename: infoPosition?.filename ?? basename(info.file.fileName),
+					...info.file.getLineAndCharacterOfPosition(start),
+				};
+			}),
+		);
+	}
+
+	for (const error of twoslash.errors as NodeErrorWithRelatedInformation[]) {
+		const info = error.id && related.get(error.id);
+		if (info) error.related = info;
+	}
+}
+
+/**
+ * Parses the message of a diagnostic into its message chain.
+ *
+ * TypeScript flattens message chains into lines, indenting each level with two spaces.
+ *
+ * @param text - The message of the diagnostic.
+ * @returns The messages at the top level of the chain, with their nested messages.
+ */
+export function parseMessageChain(text: string): TwoslashMessageChain[] {
+	const roots: TwoslashMessageChain[] = [];
+	const parents: TwoslashMessageChain[] = [];
+
+	for (const line of text.split("\n")) {
+		if (!line.trim()) continue;
+
+		const level = Math.floor((line.length - line.trimStart().length) / 2);
+		const message: TwoslashMessageChain = { text: line.trim(), next: [] };
+
+		parents.length = Math.min(parents.length, level);
+
+		const parent = parents[parents.length - 1];
+		if (parent) parent.next.push(message);
+		else roots.push(message);
+
+		parents.push(message);
+	}
+
+	return roots;
+}
+
+/**
+ * The localized diagnostic messages bundled with the compiler, keyed by locale.
+ */
+const localizedMessages = new Map<string, Record<string, string> | undefined>();
+
+/**
+ * Sets the language of the diagnostics a TypeScript module creates from now on.
+ *
+ * The compiler bundles localized messages for some locales (e.g. `de`, `ja` or `zh-cn`), looked up
+ * with and without the region of the locale. Other locales reset the diagnostics to English.
+ *
+ * @param tsModule - The TypeScript module used by Twoslash.
+ * @param locale - The locale of the code block, e.g. `de-DE`.
+ */
+export function setDiagnosticsLocale(
+	tsModule: typeof ts,
+	locale: string,
+): void {
+	// Not part of the public API, but used by the compiler itself to apply the `locale` option
+	const { setLocalizedDiagnosticMessages } = tsModule as typeof ts & {
+		setLocalizedDiagnosticMessages?: (
+			messages: Record<string, string> | undefined,
+		) => void;
+	};
+	if (!setLocalizedDiagnosticMessages) return;
+
+	const key = locale.toLowerCase().replace("_", "-");
+
+	if (!localizedMessages.has(key)) {
+		const directory = dirname(tsModule.sys.getExecutingFilePath());
+		const path = [key, key.split("-")[0]]
+			.map((name) => join(directory, name, "diagnosticMessages.generated.json"))
+			.find((path) => tsModule.sys.fileExists(path));
+		const contents = path && tsModule.sys.readFile(path);
+
+		localizedMessages.set(key, contents ? JSON.parse(contents) : undefined);
+	}
+
+	setLocalizedDiagnosticMessages(localizedMessages.get(key));
+}
+
+/**
+ * Converts a position in the code passed to Twoslash to a position in its output code.
+ *
+ * @param index - The position in the code passed to Twoslash.
+ * @param removals - The ranges Twoslash removed from the code.
+ * @returns The position in the output code, or `undefined` if it was removed (e.g. cut).
+ */
+function toOutputIndex(
+	index: number,
+	removals: TwoslashReturn["meta"]["removals"],
+): number | undefined {
+	let outputIndex = index;
+
+	for (const [start, end] of removals) {
+		if (index >= start && index < end) return undefined;
+		if (end <= index) outputIndex -= end - start;
+	}
+
+	return outputIndex;
+}
+
+/**
+ * Converts a position in a text to its zero-based line and character.
+ */
+function indexToLineAndCharacter(text: string, index: number) {
+	const lines = text.slice(0, index).split("\n");
+
+	return {
+		line: lines.length - 1,
+		character: lines[lines.length - 1].length,
+	};
+}
@@ -0,0 +1,166 @@
+import type { ExpressiveCodeBlock } from "@expressive-code/core";
+import { type Element, type Parents, h } from "@expressive-code/core/hast";
+import type { TwoslashExecuteOptions, TwoslashInstance } from "twoslash";
+import type { TwoslashEmitLayout, TwoslashEmittedFile } from "../types";
+
+/**
+ * The files shown for an `emit` meta option without a value.
+ */
+const defaultEmittedFiles = ["index.js", "index.d.ts"];
+
+/**
+ * Returns the emitted files to show next to the source of a code block.
+ *
+ * The files are set with the `emit` meta option, e.g. `emit="index.js index.d.ts.map"`.
+ * Without a value, the JavaScript and declaration output are shown.
+ *
+ * @param codeBlock - The code block to read the meta options of.
+ * @returns The names of the emitted files, or an empty array if none should be shown.
+ */
+export function parseEmitMeta(
+	codeBlock: Pick<ExpressiveCodeBlock, "metaOptions">,
+): string[] {
+	const value = codeBlock.metaOptions.getString("emit");
+
+	if (value === undefined) {
+		return codeBlock.metaOptions.getBoolean("emit") ? defaultEmittedFiles : [];
+	}
+
+	return value.split(/[\s,]+/).filter(Boolean);
+}
+
+/**
+ * Returns the layout of the source and its emitted files for a code block.
+ *
+ * @param codeBlock - The code block to read the `emitLayout` meta option of.
+ * @param defaultLayout - The layout set in the plugin options.
+ * @returns The layout, where invalid meta values fall back to the plugin option.
+ */
+export function parseEmitLayout(
+	codeBlock: Pick<ExpressiveCodeBlock, "metaOptions">,
+	defaultLayout: TwoslashEmitLayout,
+): TwoslashEmitLayout {
+	const layout = codeBlock.metaOptions.getString("emitLayout");
+
+	return layout === "tabs" || layout === "side-by-side"
+		? layout
+		: defaultLayout;
+}
+
+/**
+ * Emits the given files for the code of a code block.
+ *
+ * Every file is emitted in its own Twoslash run with the `showEmit` handbook option, enabling
+ * the compiler options the file needs (e.g. `declaration` for `.d.ts` files).
+ *
+ * @param twoslasher - The Twoslash instance used for the code block.
+ * @param code - The code of the code block, including its includes.
+ * @param extension - The language of the code block.
+ * @param options - The options the code block was processed with.
+ * @param filenames - The names of the files to emit.
+ * @returns The emitted files.
+ */
+export function emitTwoslashFiles(
+	twoslasher: TwoslashInstance,
+	code: string,
+	extension: string,
+	options: TwoslashExecuteOptions,
+	filenames: readonly string[],
+): TwoslashEmittedFile[] {
+	return filenames.map((filename) => {
+		const isDeclaration = /\.d\.[cm]?ts(\.map)?$/.test(filename);
+		const isMap = filename.endsWith(".map");
+
+		const result = twoslasher(code, extension, {
+			...options,
+			compilerOptions: {
+				...options.compilerOptions,
+				noEmit: false,
+				...(isDeclaration && { declaration: true }),
+				...(isDeclaration && isMap && { declarationMap: true }),
+				...(!isDeclaration && isMap && { sourceMap: true }),
+			},
+			handbookOptions: {
+				...options.handbookOptions,
+				showEmit: true,
+				showEmittedFile: filename,
+				// The errors were already validated when the code block was processed
+				noErrorValidation: true,
+			},
+		});
+
+		return {
+			filename,
+			code: result.code.replace(/\n$/, ""),
+			language: result.meta.extension,
+		};
+	});
+}
+
+/**
+ * Replaces the `pre` element of a rendered code block with panes for the source and its emitted files.
+ *
+ * Every pane follows its radio button and label, so that the styles can show the pane of the checked
+ * radio button for any number of panes. The radio buttons form a native group, which needs no ARIA roles.
+ *
+ * In the `tabs` layout, only one pane is shown at a time, selected with radio buttons styled as tabs.
+ * In the `side-by-side` layout, all panes are shown next to each other with their file name above them.
+ *
+ * @param blockAst - The rendered code block.
+ * @param id - A unique id of the code block, used to group its radio buttons.
+ * @param layout - The layout of the panes.
+ * @param sourceName - The file name shown for the source of the code block.
+ * @param files - The emitted files and their rendered `pre` elements.
+ */
+export function renderEmittedFiles(
+	blockAst: Element,
+	id: string,
+	layout: TwoslashEmitLayout,
+	sourceName: string,
+	files: readonly { filename: string; pre: Element }[],
+): void {
+	const [parent, index] = findPre(blockAst) ?? [];
+	if (!parent || index === undefined) return;
+
+	const panes = [
+		{ filename: sourceName, pre: parent.children[index] as Element },
+		...files,
+	];
+
+	parent.children[index] = h(
+		`div.twoslash-emit.twoslash-emit-${layout}`,
+		panes.flatMap((pane, paneIndex) => [
+			h("input.twoslash-emit-radio", {
+				type: "radio",
+				name: id,
+				id: `${id}-${paneIndex}`,
+				checked: paneIndex === 0,
+			}),
+			h(
+				"label.twoslash-emit-tab",
+				{ for: `${id}-${paneIndex}` },
+				pane.filename,
+			),
+			h("div.twoslash-emit-pane", [
+				h("div.twoslash-emit-pane-title", pane.filename),
+				pane.pre,
+			]),
+		]),
+	);
+}
+
+/**
+ * Finds the first `pre` element in a tree.
+ *
+ * @param node - The node to search in.
+ * @returns The parent of the `pre` element and its index, or `undefined` if there is none.
+ */
+function findPre(node: Parents): [Parents, number] | undefined {
+	for (const [index, child] of node.children.entries()) {
+		if (child.type !== "element") continue;
+		if (child.tagName === "pre") return [node, index];
+
+		const found = findPre(child);
+		if (found) return found;
+	}
+}
@@ -0,0 +1,124 @@
+import type { ExpressiveCodeBlock } from "@expressive-code/core";
+import { type Element, h } from "@expressive-code/core/hast";
+import type { NodeError } from "twoslash";
+import type {
+	TwoslashErrorCountLevel,
+	TwoslashErrorDisplay,
+	TwoslashTexts,
+} from "../types";
+import { parseMessageChain } from "./diagnostics";
+import { getErrorLevelClass, getErrorLevelString } from "./string-gen";
+
+/**
+ * The levels in the keys of the texts counting the errors of each level, in the order they are listed in the footer.
+ */
+const errorCountLevels: Record<string, TwoslashErrorCountLevel> = {
+	"twoslash-error-level-error": "Error",
+	"twoslash-error-level-warning": "Warning",
+	"twoslash-error-level-suggestion": "Suggestion",
+	"twoslash-error-level-message": "Message",
+};
+
+/**
+ * The suffixes of the texts counting errors in each plural category.
+ */
+const pluralCategorySuffixes = {
+	zero: "Zero",
+	one: "One",
+	two: "Two",
+	few: "Few",
+	many: "Many",
+	other: "Other",
+} as const satisfies Record<Intl.LDMLPluralRule, string>;
+
+/**
+ * Returns how the errors of a code block are shown.
+ *
+ * @param codeBlock - The code block to read the `errorDisplay` meta option of.
+ * @param defaultDisplay - The display set in the plugin options.
+ * @returns The error display, where invalid meta values fall back to the plugin option.
+ */
+export function parseErrorDisplay(
+	codeBlock: Pick<ExpressiveCodeBlock, "metaOptions">,
+	defaultDisplay: TwoslashErrorDisplay,
+): TwoslashErrorDisplay {
+	const display = codeBlock.metaOptions.getString("errorDisplay");
+
+	return display === "box" ||
+		display === "hover" ||
+		display === "inline" ||
+		display === "summary"
+		? display
+		: defaultDisplay;
+}
+
+/**
+ * Renders the footer of a code block with errors, counting the errors per level and linking to their lines.
+ *
+ * The lines are highlighted by the styles while they are the target of the page URL.
+ *
+ * @param errors - The errors of the code block, with the ids of their lines.
+ * @param texts - The texts in the locale of the code block.
+ * @param locale - The locale of the code block, used to choose the plural forms of the counts and join them.
+ * @returns The footer element.
+ */
+export function renderErrorFooter(
+	errors: readonly { error: NodeError; anchor: string }[],
+	texts: TwoslashTexts,
+	locale: string,
+): Element {
+	const pluralRules = new Intl.PluralRules(locale);
+
+	const counts = Object.entries(errorCountLevels).flatMap(
+		([levelClass, level]) => {
+			const count = errors.filter(
+				({ error }) => getErrorLevelClass(error) === levelClass,
+			).length;
+
+			if (count === 0) return [];
+
+			// Plural categories without a text fall back to the text for all other numbers
+			const suffix = pluralCategorySuffixes[pluralRules.select(count)];
+			const text =
+				texts[`errorCount${level}${suffix}`] ??
+				texts[`errorCount${level}Other`];
+
+			return [text.replace("{count}", String(count))];
+		},
+	);
+
+	return h(
+		"footer.twoslash-error-footer",
+		{ "aria-label": texts.errorSummary },
+		[
+			h(
+				"div.twoslash-error-footer-counts",
+				new Intl.ListFormat(locale, { type: "unit" }).format(counts),
+			),
+			h(
+				"ol.twoslash-error-footer-list",
+				errors.map(({ error, anchor }) =>
+					h("li", [
+						h("a.twoslash-error-footer-link", { href: `#${anchor}` }, [
+							h(
+								"span.twoslash-error-footer-level",
+								{ class: getErrorLevelClass(error) },
+								getErrorLevelString(error, texts),
+							),
+							" ",
+							h(
+								"span.twoslash-error-footer-location",
+								`${error.line + 1}:${error.character + 1}`,
+							),
+							" ",
+							h(
+								"span.twoslash-error-footer-message",
+								parseMessageChain(error.text)[0]?.text ?? error.text,
+							),
+						]),
+					]),
+				),
+			),
+		],
+	);
+}
@@ -0,0 +1,104 @@
+import type { NodeError } from "twoslash";
+import type { PluginTwoslashOptions } from "../types";
+
+/**
+ * Short explanations of the most common TypeScript diagnostics, keyed by their error code.
+ */
+export const errorExplanations: Readonly<Record<number, string>> = {
+	1005: "The parser expected a specific token (like a `;`, `,` or `)`) at this position. Look for a missing or mistyped character just before the error.",
+	1109: "The parser expected an expression, e.g. a value after an operator or between parentheses, but found something else.",
+	1128: "The parser expected a declaration or statement. This is usually caused by an unbalanced brace or a stray character.",
+	1308: "`await` can only be used inside an `async` function or at the top level of a module.",
+	2304: "The name is not declared in this scope. Check for typos, a missing import, or missing type definitions for a global.",
+	2305: "The module exists, but does not export a member with this name. Check the spelling or whether it is a default export.",
+	2307: "TypeScript cannot find the module or its type declarations. Check the path, install the package, or install its `@types` package.",
+	2322: "The value does not match the type it is assigned to. Compare the two types in the message; the last lines usually point at the property that differs.",
+	2339: "The property is not part of the type. Check the spelling, narrow the type first, or add the property to the type definition.",
+	2344: "The type argument does not satisfy the constraint (`extends`) of the generic type parameter.",
+	2345: "The argument passed to the function does not match the type of the parameter.",
+	2349: "The expression is called like a function, but its type has no call signatures.",
+	2351: "The expression is used with `new`, but its type has no construct signatures.",
+	2352: "The type assertion converts between types that do not sufficiently overlap. If this is intended, convert to `unknown` first.",
+	2353: "Object literals may only specify known properties. The property does not exist in the target type, which is often a typo.",
+	2355: "The function declares a return type, but not all code paths return a value.",
+	2362: "The left side of an arithmetic operation must be of type `any`, `number`, `bigint` or an enum.",
+	2363: "The right side of an arithmetic operation must be of type `any`, `number`, `bigint` or an enum.",
+	2365: "The operator cannot be applied to operands of these types.",
+	2366: "The function declares a return type that does not include `undefined`, but it can reach its end without returning.",
+	2367: "The comparison is always `true` or always `false`, because the types of both sides have no values in common.",
+	2393: "The function is implemented more than once. Overloads must have exactly one implementation.",
+	2403: "The variable was declared again with a different type. All declarations of a variable must have the same type.",
+	2416: "The property of the subclass is not compatible with the same property in the base class.",
+	2420: "The class does not correctly implement the interface. Check the members listed in the message.",
+	2430: "The interface does not correctly extend the base interface. A property has a type that is incompatible with the base.",
+	2448: "The `let` or `const` variable is used before the line that declares it.",
+	2451: "A `let` or `const` variable with the same name already exists in this scope.",
+	2454: "The variable is read before a value is assigned to it on every code path.",
+	2488: "The value is iterated (e.g. with `for...of` or spread), but its type has no `[Symbol.iterator]()` method.",
+	2531: "The value can be `null` here. Check for `null` before using it, or use optional chaining (`?.`).",
+	2532: "The value can be `undefined` here. Check for `undefined` before using it, or use optional chaining (`?.`).",
+	2540: "The property is `readonly` and cannot be assigned after it was initialized.",
+	2551: "The property does not exist on the type, but a property with a similar name does. This is likely a typo.",
+	2554: "The function is called with a different number of arguments than it accepts.",
+	2564: "The class property is neither initialized where it is declared nor in the constructor. Initialize it, or mark it as optional.",
+	2571: "The value is of type `unknown` and has to be narrowed (e.g. with `typeof` or `instanceof`) before it can be used.",
+	2588: "The variable is declared with `const` and cannot be reassigned. Use `let` if it needs to change.",
+	2589: "The type is too deeply nested or infinitely recursive for TypeScript to resolve. Simplify the type or add a base case.",
+	2683: "`this` has no type annotation and its type cannot be inferred. Add a `this` parameter to the function.",
+	2693: "The name only refers to a type, but is used as a value at runtime.",
+	2739: "The object is missing several properties that are required by the target type.",
+	2740: "The object is missing several properties that are required by the target type.",
+	2741: "The object is missing a property that is required by the target type.",
+	2749: "The name refers to a value, but is used as a type. Use `typeof` to get the type of the value.",
+	2769: "None of the overloads of the function accepts these arguments. The message lists why each overload failed.",
+	6133: "The declaration is never used. Remove it, or prefix the name with `_` if it is intentionally unused.",
+	7006: "The parameter has no type annotation and its type cannot be inferred, so it is implicitly `any`.",
+	7053: "The object is indexed with a key that its type does not declare. Add an index signature or narrow the key to a known property.",
+	18046:
+		"The value is of type `unknown` and has to be narrowed (e.g. with `typeof` or `instanceof`) before it can be used.",
+	18047:
+		"The value can be `null` here. Check for `null` before using it, or use optional chaining (`?.`).",
+	18048:
+		"The value can be `undefined` here. Check for `undefined` before using it, or use optional chaining (`?.`).",
+};
+
+/**
+ * Returns the URL of the explanation page for the code of an error.
+ *
+ * @param error - The error to get the URL for.
+ * @param errorCodeUrl - A template, where `{code}` is replaced with the error code, or a function returning the URL.
+ * @returns The URL, or `undefined` if the error has no code or no URL is configured.
+ */
+export function getErrorCodeUrl(
+	error: NodeError,
+	errorCodeUrl: PluginTwoslashOptions["errorCodeUrl"],
+): string | undefined {
+	if (!error.code || !errorCodeUrl) return undefined;
+
+	if (typeof errorCodeUrl === "function") return errorCodeUrl(error);
+
+	return errorCodeUrl.replace(/\{code\}/g, String(error.code));
+}
+
+/**
+ * Returns the explanation for the code of an error.
+ *
+ * @param error - The error to get the explanation for.
+ * @param explanations - `true` to use the bundled explanations, or additional explanations keyed by error code.
+ * @returns The explanation, or `undefined` if the error has no known explanation.
+ */
+export function getErrorExplanation(
+	error: NodeError,
+	explanations: PluginTwoslashOptions["errorExplanations"],
+): string | undefined {
+	if (!error.code || !explanations) return undefined;
+
+	// Custom tags can report errors with string codes
+	const code = Number(error.code);
+
+	if (explanations !== true && code in explanations) {
+		return explanations[code];
+	}
+
+	return errorExplanations[code];
+}
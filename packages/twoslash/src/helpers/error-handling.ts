@@ -0,0 +1,113 @@
+import type { ExpressiveCodeBlock } from "@expressive-code/core";
+import {
+	type Element,
+	type Root,
+	SKIP,
+	getClassNames,
+	visit,
+} from "@expressive-code/core/hast";
+
+/**
+ * Represents the location of a code block in its source document.
+ *
+ * @property {string} path - The path to the source document, if known.
+ * @property {number} line - The 1-based line of the code block in the source document, if known.
+ */
+export type CodeBlockLocation = {
+	path?: string | undefined;
+	line?: number | undefined;
+};
+
+/**
+ * Finds the location of a code block in its source document.
+ *
+ * The line is looked up in the parsed document provided by the integration (e.g. `rehype-expressive-code`),
+ * using the position of the code block among the code block groups of the document. Groups that have
+ * already been rendered replace their `<pre>` element, and the others are still `<pre>` elements with
+ * position information.
+ *
+ * @param codeBlock - The code block to find the location for.
+ * @returns The location of the code block, without a line if the document does not provide its position.
+ */
+export function getCodeBlockLocation(
+	codeBlock: ExpressiveCodeBlock,
+): CodeBlockLocation {
+	const { sourceFilePath, documentRoot, positionInDocument } =
+		codeBlock.parentDocument ?? {};
+	const location: CodeBlockLocation = { path: sourceFilePath };
+
+	if (
+		!documentRoot ||
+		typeof documentRoot !== "object" ||
+		!positionInDocument
+	) {
+		return location;
+	}
+
+	// The code block groups in the order the integration renders them
+	const groups: Element[] = [];
+
+	visit(documentRoot as Root, "element", (element: Element) => {
+		if (getClassNames(element).includes("expressive-code")) {
+			groups.push(element);
+			return SKIP;
+		}
+
+		const code = element.children[0];
+
+		if (
+			element.tagName === "pre" &&
+			element.children.length === 1 &&
+			code?.type === "element" &&
+			code.tagName === "code" &&
+			code.children[0]?.type === "text"
+		) {
+			groups.push(element);
+		}
+	});
+
+	location.line = groups[positionInDocument.groupIndex]?.position?.start.line;
+
+	return location;
+}
+
+/**
+ * Formats the location of a code block for use in log messages.
+ *
+ * @param location - The location of the code block.
+ * @returns A string like `src/content/docs/index.mdx:12`, or a generic description if the location is unknown.
+ */
+export function formatCodeBlockLocation({
+	path,
+	line,
+}: CodeBlockLocation): string {
+	if (!path) return "an unknown document";
+	return line ? `${path}:${line}` : path;
+}
+
+/**
+ * Returns the title and description of an error thrown while processing a code block.
+ *
+ * Errors thrown by Twoslash provide a separate title, description and recommendation.
+ *
+ * @param error - The error that was thrown.
+ * @returns An object containing the title and description of the error.
+ */
+export function getProcessingErrorDetails(error: unknown): {
+	title: string;
+	description: string;
+} {
+	if (error instanceof Error) {
+		if ("title" in error && typeof error.title === "string") {
+			const details = ["description", "recommendation"]
+				.map((key) => (error as unknown as Record<string, unknown>)[key])
+				.filter((value) => typeof value === "string" && value.length > 0);
+
+			return { title: error.title, description: details.join("\n\n") };
+		}
+
+		return { title: error.name, description: error.message };
+	}
+
+	return { title: "Error", description: String(error) };
+}
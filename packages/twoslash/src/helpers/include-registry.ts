@@ -0,0 +1,298 @@
+import { readFileSync, readdirSync, statSync } from "node:fs";
+import { extname, join, resolve } from "node:path";
+import {
+	type Element,
+	type Root,
+	getClassNames,
+	toText,
+	visit,
+} from "@expressive-code/core/hast";
+import type { TwoslashIncludesChange } from "../types";
+import { parseIncludeMeta, parseIncludeSections } from "./includes";
+
+/**
+ * A code block found while scanning a document for includes.
+ */
+type ScannedCodeBlock = {
+	language: string;
+	meta: string;
+	code: string;
+};
+
+/**
+ * The includes defined by a scanned document.
+ *
+ * @property {unknown} documentRoot - The parsed document the includes were scanned from, if any.
+ * @property {Map<string, string>} definitions - The code of each include (and include section) key.
+ */
+type ScannedDocument = {
+	documentRoot?: unknown;
+	definitions: Map<string, string>;
+};
+
+/**
+ * The content directories scanned for includes if `includeSources` is not set, where they exist.
+ */
+export const defaultIncludeSources = ["src/content", "src/pages"];
+
+/**
+ * File extensions of documents scanned when a directory is passed to `includeSources`.
+ */
+const includeSourceExtensions = [".md", ".mdx", ".mdoc"];
+
+/**
+ * Matches the opening or closing line of a fenced code block and captures
+ * its indentation, fence, language and meta string.
+ */
+const reCodeFence = /^([ \t]*)(`{3,}|~{3,})[ \t]*([^\s`]*)[ \t]*(.*)$/;
+
+/**
+ * Keeps track of the `include` code blocks of all documents.
+ *
+ * Documents are scanned for includes before their code blocks are processed, so that
+ * includes resolve regardless of the order in which code blocks and pages are rendered.
+ * When a document is rendered again (e.g. in dev mode), its includes are updated,
+ * removed includes are evicted and the documents that depend on changed includes are reported.
+ */
+export class TwoslashIncludeRegistry {
+	/**
+	 * The code of all known includes (and include sections), as written in their code blocks.
+	 */
+	readonly map = new Map<string, string>();
+
+	private readonly documents = new Map<string, ScannedDocument>();
+	private readonly dependents = new Map<string, Set<string>>();
+
+	/**
+	 * Creates an instance of TwoslashIncludeRegistry.
+	 *
+	 * @param isTwoslashBlock - A function that returns whether a code block is processed by Twoslash.
+	 */
+	constructor(
+		readonly isTwoslashBlock: (block: {
+			language: string;
+			meta: string;
+		}) => boolean,
+	) {}
+
+	/**
+	 * Scans Markdown files, or all Markdown files in the given directories, for includes.
+	 *
+	 * @param paths - The files or directories to scan, relative to the current working directory.
+	 */
+	scanSources(paths: readonly string[]): void {
+		for (const file of paths.flatMap((path) =>
+			findSourceFiles(resolve(path)),
+		)) {
+			const source = readFileSync(file, "utf8").replace(/\r\n/g, "\n");
+			this.updateDocument(file, findCodeFences(source));
+		}
+	}
+
+	/**
+	 * Scans the parsed document a code block belongs to for includes.
+	 *
+	 * Every document is only scanned once per render, as all its code blocks share the same parsed document.
+	 *
+	 * @param path - The path of the document.
+	 * @param documentRoot - The parsed document, as provided by the integration (e.g. `rehype-expressive-code`).
+	 * @returns The changed includes and the documents using them, or `undefined` if nothing changed.
+	 */
+	scanDocument(
+		path: string,
+		documentRoot: unknown,
+	): TwoslashIncludesChange | undefined {
+		const documentPath = resolve(path);
+		if (this.documents.get(documentPath)?.documentRoot === documentRoot) return;
+
+		const codeBlocks: ScannedCodeBlock[] = [];
+
+		visit(documentRoot as Root, "element", (element: Element) => {
+			const code = element.children[0];
+
+			if (
+				element.tagName !== "pre" ||
+				code?.type !== "element" ||
+				code.tagName !== "code"
+			) {
+				return;
+			}
+
+			const language =
+				getClassNames(code)
+					.find((name) => name.startsWith("language-"))
+					?.replace("language-", "") ?? "";
+			const meta = code.data?.meta ?? code.properties?.metastring ?? "";
+
+			// Keep the line breaks, and remove the one added after the last line of the code
+			const text = toText(code, { whitespace: "pre" }).replace(/\n$/, "");
+
+			codeBlocks.push({ language, meta: String(meta), code: text });
+		});
+
+		return this.updateDocument(documentPath, codeBlocks, documentRoot);
+	}
+
+	/**
+	 * Adds an include that does not belong to a known document.
+	 *
+	 * @param name - The name of the include.
+	 * @param code - The code of the include.
+	 */
+	define(name: string, code: string): void {
+		for (const [section, sectionCode] of parseIncludeSections(code)) {
+			this.map.set(section ? `${name}-${section}` : name, sectionCode);
+		}
+	}
+
+	/**
+	 * Records the includes used by the code blocks of a document.
+	 *
+	 * @param path - The path of the document.
+	 * @param keys - The keys of the includes used by the document.
+	 */
+	addDependencies(path: string, keys: Iterable<string>): void {
+		const documentPath = resolve(path);
+
+		for (const key of keys) {
+			let documents = this.dependents.get(key);
+
+			if (!documents) {
+				documents = new Set();
+				this.dependents.set(key, documents);
+			}
+
+			documents.add(documentPath);
+		}
+	}
+
+	/**
+	 * Replaces the includes defined by a document with the ones found in its code blocks.
+	 *
+	 * @param path - The absolute path of the document.
+	 * @param codeBlocks - All code blocks of the document.
+	 * @param documentRoot - The parsed document, if the code blocks were scanned from one.
+	 * @returns The changed includes and the documents using them, or `undefined` if nothing changed
+	 * or the document was not rendered before.
+	 */
+	private updateDocument(
+		path: string,
+		codeBlocks: ScannedCodeBlock[],
+		documentRoot?: unknown,
+	): TwoslashIncludesChange | undefined {
+		const previousDocument = this.documents.get(path);
+		const previous = previousDocument?.definitions ?? new Map();
+		const definitions = new Map<string, string>();
+
+		for (const codeBlock of codeBlocks) {
+			const name = parseIncludeMeta(codeBlock.meta);
+			if (!name || !this.isTwoslashBlock(codeBlock)) continue;
+
+			for (const [section, sectionCode] of parseIncludeSections(
+				codeBlock.code,
+			)) {
+				definitions.set(section ? `${name}-${section}` : name, sectionCode);
+			}
+		}
+
+		const changed: string[] = [];
+
+		for (const [key, code] of previous) {
+			if (definitions.get(key) === code) continue;
+
+			changed.push(key);
+
+			// Evict includes that were removed from the document, unless another document still defines them
+			if (!definitions.has(key)) {
+				const other = [...this.documents].find(
+					([otherPath, document]) =>
+						otherPath !== path && document.definitions.has(key),
+				);
+
+				if (other) this.map.set(key, other[1].definitions.get(key) as string);
+				else this.map.delete(key);
+			}
+		}
+
+		for (const [key, code] of definitions) {
+			this.map.set(key, code);
+		}
+
+		this.documents.set(path, { documentRoot, definitions });
+
+		// The document is rendered again, so its own dependencies are recorded again
+		for (const documents of this.dependents.values()) {
+			documents.delete(path);
+		}
+
+		// Differences to the scan of the Markdown source are not changes made while rendering again
+		if (changed.length === 0 || previousDocument?.documentRoot === undefined) {
+			return;
+		}
+
+		const documents = new Set(
+			changed.flatMap((key) => [...(this.dependents.get(key) ?? [])]),
+		);
+
+		return { includes: changed, documents: [...documents] };
+	}
+}
+
+/**
+ * Returns the given file, or all Markdown files in the given directory and its subdirectories.
+ *
+ * @param path - The absolute path of a file or directory.
+ * @returns The absolute paths of the files, sorted to keep the scan order stable.
+ */
+function findSourceFiles(path: string): string[] {
+	if (!statSync(path).isDirectory()) return [path];
+
+	return readdirSync(path, { recursive: true, encoding: "utf8" })
+		.filter(
+			(file) =>
+				includeSourceExtensions.includes(extname(file)) &&
+				!file.split(/[\\/]/).includes("node_modules"),
+		)
+		.map((file) => join(path, file))
+		.sort();
+}
+
+/**
+ * Finds all fenced code blocks in a Markdown document.
+ *
+ * @param source - The source of the Markdown document.
+ * @returns The language, meta string and code of each code block.
+ */
+function findCodeFences(source: string): ScannedCodeBlock[] {
+	const codeBlocks: ScannedCodeBlock[] = [];
+	let open:
+		| { indent: number; fence: string; language: string; meta: string }
+		| undefined;
+	const lines: string[] = [];
+
+	for (const line of source.split("\n")) {
+		const match = line.match(reCodeFence);
+
+		if (!open) {
+			if (!match) continue;
+
+			const [, indent, fence, language, meta] = match;
+			open = { indent: indent.length, fence, language, meta };
+			lines.length = 0;
+		} else if (
+			match &&
+			match[2][0] === open.fence[0] &&
+			match[2].length >= open.fence.length &&
+			!match[3] &&
+			!match[4]
+		) {
+			const { language, meta } = open;
+			codeBlocks.push({ language, meta, code: lines.join("\n") });
+			open = undefined;
+		} else {
+			lines.push(line.slice(Math.min(open.indent, line.search(/\S|$/))));
+		}
+	}
+
+	return codeBlocks;
+}
@@ -1,24 +1,32 @@
-export class TwoslashIncludesManager {
-	constructor(public map: Map<string, string> = new Map()) {}
-
-	add(name: string, code: string): void {
-		const lines: string[] = [];
-
-		code.split("\n").forEach((l, _i) => {
-			const trimmed = l.trim();
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import type { ExpressiveCodeBlock } from "@expressive-code/core";
+import type { TwoslashIncludeExpansion } from "../types";
 
-			if (trimmed.startsWith("// - ")) {
-				const key = trimmed.split("// - ")[1].split(" ")[0];
-				this.map.set(`${name}-${key}`, lines.join("\n"));
-			} else {
-				lines.push(l);
-			}
-		});
-		this.map.set(name, lines.join("\n"));
-	}
+/**
+ * Matches an `// @include-file: ./path/to/file.ts#section` marker and captures the file reference.
+ */
+const reIncludeFileMarker = /\/\/ @include-file: (.*)$/m;
 
-	applyInclude(code: string): string {
+export class TwoslashIncludesManager {
+	/**
+	 * The keys of all includes that were resolved by this manager, including nested ones.
+	 */
+	readonly used = new Set<string>();
+
+	/**
+	 * The include markers replaced in the code passed to the last `applyInclude` call, in the order they appear.
+	 */
+	readonly expansions: TwoslashIncludeExpansion[] = [];
+
+	constructor(
+		public map: Map<string, string> = new Map(),
+		public root: string = process.cwd(),
+	) {}
+
+	applyInclude(code: string, parents: string[] = []): string {
 		const reMarker = /\/\/ @include: (.*)$/gm;
+		const reFileMarker = new RegExp(reIncludeFileMarker, "gm");
 
 		// Basically run a regex over the code replacing any // @include: thing with
 		// 'thing' from the map
@@ -33,12 +41,48 @@ export class TwoslashIncludesManager {
 			const key = match[1];
 			const replaceWith = this.map.get(key);
 
-			if (!replaceWith) {
+			if (replaceWith === undefined) {
 				const msg = `Could not find an include with the key: '${key}'.\nThere is: ${Array.from(this.map.keys())}.`;
 				throw new Error(msg);
 			}
 
-			toReplace.push([match.index, match[0].length, replaceWith]);
+			if (parents.includes(key)) {
+				const msg = `Found a circular include: ${[...parents, key].join(" -> ")}.`;
+				throw new Error(msg);
+			}
+
+			this.used.add(key);
+
+			// Includes are stored as written, so nested includes are resolved here
+			toReplace.push([
+				match.index,
+				match[0].length,
+				this.applyInclude(replaceWith, [...parents, key]),
+			]);
+		}
+
+		for (const match of code.matchAll(reFileMarker)) {
+			toReplace.push([
+				match.index,
+				match[0].length,
+				this.readIncludeFile(match[1].trim()),
+			]);
+		}
+
+		// Keep the changes in the order they appear in the code
+		toReplace.sort(([a], [b]) => a - b);
+
+		// Only the markers of the code itself are recorded, nested includes are part of their replacement
+		if (parents.length === 0) {
+			this.expansions.splice(
+				0,
+				this.expansions.length,
+				...toReplace.map(([index, length, replacementCode]) => ({
+					index,
+					length,
+					replacementLength: replacementCode.length,
+				})),
+			);
 		}
 
 		let newCode = code.toString();
@@ -54,6 +98,98 @@ export class TwoslashIncludesManager {
 
 		return newCode;
 	}
+
+	/**
+	 * Reads the code for an `// @include-file:` marker from disk.
+	 *
+	 * @param reference - The path of the file relative to the includes root, optionally followed by `#section`.
+	 * @returns The code of the file, or of the given section of the file.
+	 */
+	readIncludeFile(reference: string): string {
+		const [path, section] = reference.split("#");
+		const filePath = resolve(this.root, path);
+
+		let code: string;
+
+		try {
+			code = readFileSync(filePath, "utf8")
+				.replace(/\r\n/g, "\n")
+				.replace(/\n$/, "");
+		} catch {
+			throw new Error(
+				`Could not read the include file: '${path}'.\nResolved to: ${filePath}.`,
+			);
+		}
+
+		const sections = parseIncludeSections(code);
+		const sectionCode = sections.get(section ?? "");
+
+		if (sectionCode === undefined) {
+			const msg = `Could not find the section '${section}' in the include file: '${path}'.\nThere is: ${Array.from(sections.keys()).filter(Boolean)}.`;
+			throw new Error(msg);
+		}
+
+		return sectionCode;
+	}
+}
+
+/**
+ * Restores an `// @include-file:` marker that the frames plugin mistook for a file name comment.
+ *
+ * The frames plugin removes file name comments from the first lines of a code block and uses
+ * them as the title. As its hook runs before ours, the marker has to be put back afterwards.
+ *
+ * @param codeBlock - The code block to restore the marker in.
+ * @param originalCode - The code of the code block before any plugin processed it.
+ */
+export function restoreIncludeFileMarker(
+	codeBlock: ExpressiveCodeBlock,
+	originalCode: string,
+): void {
+	const { title } = codeBlock.props;
+	if (!title) return;
+
+	const lines = originalCode.split("\n");
+	const index = lines
+		.slice(0, 4)
+		.findIndex((line) => line.match(reIncludeFileMarker)?.[1].trim() === title);
+
+	if (index === -1) return;
+
+	// The frames plugin also removes an empty line following the comment
+	const removedLines = lines.length - codeBlock.getLines().length;
+	if (removedLines < 1) return;
+
+	codeBlock.props.title = undefined;
+	codeBlock.insertLines(index, lines.slice(index, index + removedLines));
+}
+
+/**
+ * Splits reusable code into its sections.
+ *
+ * A `// - name` marker line ends the section `name`, which contains all code above the marker.
+ * The markers themselves are removed from the code.
+ *
+ * @param code - The code to split.
+ * @returns A map of section names to their code, where the empty name holds the full code.
+ */
+export function parseIncludeSections(code: string): Map<string, string> {
+	const sections = new Map<string, string>();
+	const lines: string[] = [];
+
+	for (const line of code.split("\n")) {
+		const trimmed = line.trim();
+
+		if (trimmed.startsWith("// - ")) {
+			const key = trimmed.split("// - ")[1].split(" ")[0];
+			sections.set(key, lines.join("\n"));
+		} else {
+			lines.push(line);
+		}
+	}
+	sections.set("", lines.join("\n"));
+
+	return sections;
 }
 
 /**
@@ -5,3 +5,14 @@ export * from "./processors";
 export * from "./comparisons";
 export * from "./utils";
 export * from "./includes";
+export * from "./include-registry";
+export * from "./cache";
+export * from "./renderer";
+export * from "./error-handling";
+export * from "./tsconfig";
+export * from "./completions";
+export * from "./error-explanations";
+export * from "./diagnostics";
+export * from "./emit";
+export * from "./popups";
+export * from "./error-display";
@@ -0,0 +1,46 @@
+import { type Element, selectAll } from "@expressive-code/core/hast";
+import type { TwoslashPopupOptions, TwoslashTexts } from "../types";
+
+/**
+ * Prepares a rendered code block for the popup interactions of the client script.
+ *
+ * The popup options are passed to the client as `data-twoslash-*` attributes of the code block. Only the
+ * first hover is in the tab order, the others are reached with the arrow keys. The fallback for
+ * disabled JavaScript is applied by the styles of the code block.
+ *
+ * @param blockAst - The rendered code block.
+ * @param options - The popup options of the plugin.
+ * @param texts - The texts in the locale of the code block, for the elements created by the client.
+ */
+export function setupPopupInteractions(
+	blockAst: Element,
+	options: TwoslashPopupOptions,
+	texts: TwoslashTexts,
+): void {
+	const hovers = selectAll(".twoslash-hover", blockAst);
+	if (hovers.length === 0) return;
+
+	for (const [index, hover] of hovers.entries()) {
+		hover.properties.tabIndex = index === 0 ? 0 : -1;
+	}
+
+	const attributes = {
+		"open-delay": options.openDelay,
+		"close-delay": options.closeDelay,
+		placement: options.placement,
+		offset: options.offset,
+		flip: options.flip,
+		shift: options.shift,
+		padding: options.padding,
+		arrow: options.arrow,
+		fallback: options.fallback ?? "focus",
+		"close-label": texts.closePopup,
+	};
+
+	for (const [name, value] of Object.entries(attributes)) {
+		// Booleans are stringified, as `false` would remove the attribute
+		if (value !== undefined) {
+			blockAst.properties[`data-twoslash-${name}`] = String(value);
+		}
+	}
+}
@@ -1,7 +1,15 @@
 import type { ExpressiveCodeBlock } from "expressive-code";
-import type { NodeCompletion, TwoslashReturn } from "twoslash";
-import { completionIcons } from "../icons/completionIcons";
-import type { CompletionIcon, CompletionItem } from "../types";
+import type { NodeCompletion, NodeHover, TwoslashReturn } from "twoslash";
+import { completionIconKinds, completionIcons } from "../icons/completionIcons";
+import type {
+	CompletionEntryWithDetails,
+	CompletionIcon,
+	CompletionItem,
+	TwoslashCompletionOptions,
+	TwoslashIncludeExpansion,
+	TwoslashLineMarkers,
+} from "../types";
+import { selectCompletionEntries } from "./completions";
 
 /**
  * Splits the given code string into an array of objects, each containing the line index and the line content.
@@ -16,61 +24,218 @@ export function splitCodeToLines(code: string): {
 	return code.split("\n").map((line, index) => ({ index, line }));
 }
 
+/**
+ * Splits the range of a Twoslash node into its parts on each line it covers.
+ *
+ * Empty lines inside the range are skipped, as there is nothing to annotate on them.
+ *
+ * @param code - The code returned by Twoslash, which the node positions refer to.
+ * @param node - The node to split.
+ * @returns The line, character and length of each part of the node, starting with its first line.
+ */
+export function splitNodeByLines(
+	code: string,
+	node: Pick<NodeHover, "start" | "length" | "line" | "character">,
+): { line: number; character: number; length: number }[] {
+	return code
+		.slice(node.start, node.start + node.length)
+		.split("\n")
+		.map((text, index) => ({
+			line: node.line + index,
+			character: index === 0 ? node.character : 0,
+			length: text.length,
+		}))
+		.filter((part, index) => index === 0 || part.length > 0);
+}
+
+/**
+ * Maps the lines of a code block to the lines of the code returned by Twoslash.
+ *
+ * Every line is followed through the include markers replaced with their code, and the ranges
+ * Twoslash removed (e.g. `// ^?` queries, `// @errors` flags and cut code). Include marker lines are
+ * replaced, so they map to no line, and the included lines are new lines of the output.
+ *
+ * @param code - The code of the code block, as passed to the includes manager.
+ * @param expansions - The include markers the includes manager replaced in the code.
+ * @param removals - The ranges Twoslash removed from the code with includes.
+ * @param outputCode - The code returned by Twoslash.
+ * @returns The index of the output line of each line of the code block, or `undefined` if it was removed.
+ */
+export function mapCodeLines(
+	code: string,
+	expansions: readonly TwoslashIncludeExpansion[],
+	removals: TwoslashReturn["meta"]["removals"],
+	outputCode: string,
+): (number | undefined)[] {
+	const lineMap: (number | undefined)[] = [];
+	let end = -1;
+	let lastOutputLine = -1;
+
+	for (const line of code.split("\n")) {
+		const start = end + 1;
+		end = start + line.length;
+		lineMap.push(undefined);
+
+		if (expansions.some(({ index }) => index >= start && index < end)) {
+			continue;
+		}
+
+		// The position of the line in the code with includes
+		const inputStart = expansions
+			.filter(({ index }) => index < start)
+			.reduce(
+				(index, { length, replacementLength }) =>
+					index + replacementLength - length,
+				start,
+			);
+		// The line break belongs to the line, so lines are only removed together with it
+		const inputEnd = inputStart + line.length + (end < code.length ? 1 : 0);
+
+		if (removals.some(([from, to]) => from <= inputStart && inputEnd <= to)) {
+			continue;
+		}
+
+		// Lines starting inside a removal start where the removal was
+		const outputStart = removals.reduce(
+			(index, [from, to]) =>
+				index - Math.max(0, Math.min(to, inputStart) - from),
+			inputStart,
+		);
+		const outputLine = outputCode.slice(0, outputStart).split("\n").length - 1;
+
+		// A line joined to the previous one by a removal is removed
+		if (outputLine <= lastOutputLine) continue;
+
+		lineMap[lineMap.length - 1] = outputLine;
+		lastOutputLine = outputLine;
+	}
+
+	return lineMap;
+}
+
+/**
+ * Returns which lines the line markers of other plugins (e.g. `{3-5}` or `ins={2}`) refer to.
+ *
+ * @param codeBlock - The code block to read the `lineMarkers` meta option of.
+ * @param defaultLineMarkers - The value set in the plugin options.
+ * @returns The lines the markers refer to, where invalid meta values fall back to the plugin option.
+ */
+export function parseLineMarkers(
+	codeBlock: Pick<ExpressiveCodeBlock, "metaOptions">,
+	defaultLineMarkers: TwoslashLineMarkers,
+): TwoslashLineMarkers {
+	const lineMarkers = codeBlock.metaOptions.getString("lineMarkers");
+
+	return lineMarkers === "authored" || lineMarkers === "rendered"
+		? lineMarkers
+		: defaultLineMarkers;
+}
+
 /**
  * Processes a code block by replacing its content with the provided Twoslash code block.
  *
+ * Only the lines that changed are edited, and the lines Twoslash removed are deleted, so the
+ * annotations other plugins added to the authored lines stay on them. With `rendered` line markers,
+ * the line annotations are moved to the output line with the index of the line they were added to.
+ *
  * @param codeBlock - The ExpressiveCodeBlock instance representing the code block to be processed.
- * @param codeWithIncludes - The original code block content including any includes.
- * @param twoslashCode - The Twoslash code block to replace the original content with.
+ * @param twoslash - The result returned by the twoslasher for the code block.
+ * @param expansions - The include markers the includes manager replaced in the code of the code block.
+ * @param lineMarkers - Which lines the line markers of other plugins refer to.
+ * @returns The index of the output line of each authored line, or `undefined` if it was removed.
  */
 export function processTwoslashCodeBlock(
 	codeBlock: ExpressiveCodeBlock,
-	codeWithIncludes: string,
-	twoslashCode: TwoslashReturn["code"],
-) {
-	// Get the EC and Twoslash code blocks
-	const ecCodeBlock = splitCodeToLines(codeWithIncludes);
-	const twoslashCodeBlock = splitCodeToLines(twoslashCode);
-
-	// Replace the EC code block with the Twoslash code block
-	for (const line of twoslashCodeBlock) {
-		const ln = codeBlock.getLine(line.index);
-		if (ln) ln.editText(0, ln.text.length, line.line);
-	}
+	twoslash: Pick<TwoslashReturn, "code" | "meta">,
+	expansions: readonly TwoslashIncludeExpansion[] = [],
+	lineMarkers: TwoslashLineMarkers = "authored",
+): (number | undefined)[] {
+	const lines = codeBlock.getLines();
+	const outputLines = splitCodeToLines(twoslash.code).map(({ line }) => line);
+	const lineMap = mapCodeLines(
+		codeBlock.code,
+		expansions,
+		twoslash.meta.removals,
+		twoslash.code,
+	);
+
+	// Take the line annotations off the authored lines, to add them to the rendered lines afterwards
+	const lineAnnotations =
+		lineMarkers === "rendered"
+			? lines.map((line) => {
+					const annotations = line
+						.getAnnotations()
+						.filter((annotation) => !annotation.inlineRange);
+					for (const annotation of annotations)
+						line.deleteAnnotation(annotation);
+					return annotations;
+				})
+			: [];
+
+	// Remove the lines Twoslash removed
+	const removedLines = lineMap.flatMap((output, index) =>
+		output === undefined ? [index] : [],
+	);
+	if (removedLines.length > 0) codeBlock.deleteLines(removedLines);
 
-	// Remove any extra lines from the EC code block
-	if (twoslashCodeBlock.length < ecCodeBlock.length) {
-		for (let i = twoslashCodeBlock.length; i < ecCodeBlock.length; i++) {
-			codeBlock.deleteLine(twoslashCodeBlock.length);
+	// Edit the changed lines, and add the lines Twoslash added (e.g. from includes)
+	const keptOutputs = lineMap.filter((output) => output !== undefined);
+	let kept = 0;
+
+	for (const [index, text] of outputLines.entries()) {
+		if (keptOutputs[kept] === index) {
+			kept++;
+			const line = codeBlock.getLine(index);
+			if (line && line.text !== text) line.editText(0, line.text.length, text);
+		} else {
+			codeBlock.insertLine(index, text);
 		}
 	}
+
+	for (const [index, annotations] of lineAnnotations.entries()) {
+		const line = codeBlock.getLine(index);
+		for (const annotation of annotations) line?.addAnnotation(annotation);
+	}
+
+	return lineMap;
 }
 
 /**
  * Processes a NodeCompletion object and returns a CompletionItem.
  *
  * @param completion - The NodeCompletion object to process.
+ * @param options - The completion options provided by the user.
  * @returns A CompletionItem containing the processed completion data.
  */
-export function processCompletion(completion: NodeCompletion): CompletionItem {
-	const items = completion.completions
-		.map((c) => {
-			const kind = c.kind || "property";
-			const isDeprecated =
-				"kindModifiers" in c &&
-				typeof c.kindModifiers === "string" &&
-				c.kindModifiers.split(",").includes("deprecated");
-
-			const icon = completionIcons[kind as CompletionIcon];
-
-			return {
-				name: c.name,
-				kind,
-				icon,
-				isDeprecated,
-			};
-		})
-		.slice(0, 5);
+export function processCompletion(
+	completion: NodeCompletion,
+	options: TwoslashCompletionOptions = {},
+): CompletionItem {
+	const entries = selectCompletionEntries(
+		completion.completions as CompletionEntryWithDetails[],
+		completion.completionsPrefix,
+		options,
+	);
+
+	const items = entries.map((c) => {
+		const kind = c.kind || "property";
+		const isDeprecated =
+			"kindModifiers" in c &&
+			typeof c.kindModifiers === "string" &&
+			c.kindModifiers.split(",").includes("deprecated");
+
+		// Kinds added in newer TypeScript versions fall back to the text icon
+		const iconName = completionIconKinds[kind] ?? "text";
+		const icon = completionIcons[iconName];
+
+		return {
+			name: c.name,
+			kind,
+			icon,
+			iconName,
+			isDeprecated,
+		};
+	});
 
 	const { character, start, completionsPrefix } = completion;
 
@@ -82,5 +247,6 @@ export function processCompletion(completion: NodeCompletion): CompletionItem {
 		start,
 		length,
 		items,
+		details: options.details ? entries[0]?.details : undefined,
 	};
 }
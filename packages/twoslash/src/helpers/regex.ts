@@ -77,12 +77,37 @@ export const reInterfaceOrNamespace: RegExp = /^(interface|namespace) \w+$/gm;
 /**
  * Regular expression to match JSDoc links.
  *
- * This regex matches `{@link ...}` patterns in a string.
+ * This regex matches `{@link ...}`, `{@linkcode ...}` and `{@linkplain ...}` patterns in a string,
+ * including a newline directly before or after them. It captures the newline before the link,
+ * the tag name, the whitespace after the tag name, the link content and the newline after the link.
  *
  * @constant {RegExp} reJsDocLink - The regular expression pattern.
  * @type {RegExp}
  */
-export const reJsDocLink: RegExp = /\{@link ([^}]*)\}/g;
+export const reJsDocLink: RegExp =
+	/(\n?)\{@(link|linkcode|linkplain)(\s+)([^}]*)\}(\n?)/g;
+
+/**
+ * Regular expression to split the content of a JSDoc link into its target and label.
+ *
+ * The label is separated from the target by a `|` or by whitespace.
+ *
+ * Example matches:
+ * - `Foo | the foo`
+ * - `https://example.com Example`
+ *
+ * @constant {RegExp} reJsDocLinkLabel - The regular expression pattern.
+ * @type {RegExp}
+ */
+export const reJsDocLinkLabel: RegExp = /^(\S+?)(?:\s*\|\s*|\s+)(\S[\s\S]*)$/;
+
+/**
+ * Regular expression to match URLs in JSDoc links.
+ *
+ * @constant {RegExp} reJsDocLinkUrl - The regular expression pattern.
+ * @type {RegExp}
+ */
+export const reJsDocLinkUrl: RegExp = /^[a-z][\w+.-]*:\/\//i;
 
 /**
  * Regular expression to match JSDoc tag filters.
@@ -0,0 +1,144 @@
+import type { ResolvedExpressiveCodeEngineConfig } from "@expressive-code/core";
+import type { Element } from "@expressive-code/core/hast";
+import { ExpressiveCode } from "expressive-code";
+import type {
+	RenderJSDocs,
+	TwoslashLinkResolver,
+	TwoslashPopup,
+	TwoslashPopupContent,
+} from "../types";
+import { ecConfig } from "./ec-config";
+import { renderJSDocs, renderType } from "./rendering";
+
+/**
+ * Maximum number of rendered types and docs kept in memory by each renderer.
+ */
+const MAX_MEMOIZED_ENTRIES = 1000;
+
+/**
+ * Renders the contents of Twoslash popups using a shared Expressive Code engine.
+ *
+ * Rendered types and JSDocs are memoized, as identical hovers are very common across a page.
+ */
+export class TwoslashPopupRenderer {
+	private readonly types = new Map<string, Promise<Element>>();
+	private readonly docs = new Map<string, Promise<RenderJSDocs>>();
+
+	/**
+	 * Creates an instance of TwoslashPopupRenderer.
+	 *
+	 * @param ec - The Expressive Code engine used to render the popups.
+	 * @param includeJsDoc - A boolean indicating whether to include JSDoc comments.
+	 * @param allowNonStandardJsDocTags - A boolean indicating whether to include non-standard JSDoc tags.
+	 * @param linkResolver - Resolves the symbols of JSDoc links to URLs.
+	 */
+	constructor(
+		readonly ec: ExpressiveCode,
+		readonly includeJsDoc: boolean,
+		readonly allowNonStandardJsDocTags: boolean,
+		readonly linkResolver?: TwoslashLinkResolver,
+	) {}
+
+	/**
+	 * Renders the popup contents for the given hover or query node, or completion details.
+	 *
+	 * @param node - The node to render the popup for.
+	 * @returns A promise that resolves to the rendered popup.
+	 */
+	async render(node: TwoslashPopupContent): Promise<TwoslashPopup> {
+		const [codeType, renderedDocs] = await Promise.all([
+			memoize(this.types, node.text, () => renderType(node.text, this.ec)),
+			// The link resolver receives the type information, so it is part of the key
+			memoize(
+				this.docs,
+				JSON.stringify([
+					node.docs,
+					node.tags,
+					this.linkResolver ? node.text : undefined,
+				]),
+				() =>
+					renderJSDocs(
+						node,
+						this.includeJsDoc,
+						this.ec,
+						this.allowNonStandardJsDocTags,
+						this.linkResolver,
+					),
+			),
+		]);
+
+		// Every annotation gets its own copy, as the nodes end up in the rendered block
+		return structuredClone({ codeType, renderedDocs });
+	}
+}
+
+/**
+ * Creates a function that returns the popup renderer for a resolved Expressive Code config.
+ *
+ * The nested Expressive Code engine is expensive to create, so only one engine is
+ * created per config and reused for all code blocks rendered with it.
+ *
+ * @param includeJsDoc - A boolean indicating whether to include JSDoc comments.
+ * @param allowNonStandardJsDocTags - A boolean indicating whether to include non-standard JSDoc tags.
+ * @param linkResolver - Resolves the symbols of JSDoc links to URLs.
+ * @returns A function that takes a resolved config and returns its popup renderer.
+ */
+export function buildPopupRendererGetter(
+	includeJsDoc: boolean,
+	allowNonStandardJsDocTags: boolean,
+	linkResolver?: TwoslashLinkResolver,
+) {
+	const renderers = new WeakMap<
+		ResolvedExpressiveCodeEngineConfig,
+		TwoslashPopupRenderer
+	>();
+
+	return function getPopupRenderer(
+		config: ResolvedExpressiveCodeEngineConfig,
+	): TwoslashPopupRenderer {
+		let renderer = renderers.get(config);
+
+		if (!renderer) {
+			renderer = new TwoslashPopupRenderer(
+				new ExpressiveCode(ecConfig(config)),
+				includeJsDoc,
+				allowNonStandardJsDocTags,
+				linkResolver,
+			);
+			renderers.set(config, renderer);
+		}
+
+		return renderer;
+	};
+}
+
+/**
+ * Returns the memoized value for the given key, creating it if it does not exist.
+ *
+ * Once the map is full, the oldest entry is evicted.
+ *
+ * @param map - The map holding the memoized values.
+ * @param key - The key of the value.
+ * @param create - A function that creates the value.
+ * @returns The memoized value.
+ */
+function memoize<T>(
+	map: Map<string, Promise<T>>,
+	key: string,
+	create: () => Promise<T>,
+): Promise<T> {
+	let value = map.get(key);
+
+	if (!value) {
+		if (map.size >= MAX_MEMOIZED_ENTRIES) {
+			map.delete(map.keys().next().value as string);
+		}
+
+		value = create();
+		// Do not keep failed renders around
+		value.catch(() => map.delete(key));
+		map.set(key, value);
+	}
+
+	return value;
+}
@@ -3,19 +3,104 @@ import type { ExpressiveCode } from "expressive-code";
 import { fromMarkdown } from "mdast-util-from-markdown";
 import { gfmFromMarkdown } from "mdast-util-gfm";
 import { toHast } from "mdast-util-to-hast";
-import type { NodeHover, NodeQuery } from "twoslash";
-import type { RenderJSDocs } from "../types";
+import type { NodeHover } from "twoslash";
+import type {
+	RenderJSDocs,
+	TwoslashLinkContext,
+	TwoslashLinkResolver,
+} from "../types";
 import {
 	jsdocTags,
 	reFunctionCleanup,
 	reImportStatement,
 	reInterfaceOrNamespace,
 	reJsDocLink,
+	reJsDocLinkLabel,
+	reJsDocLinkUrl,
 	reJsDocTagFilter,
 	reLeadingPropertyMethod,
 	reTypeCleanup,
 } from "./regex";
 
+/**
+ * Escapes the characters of a text that have a meaning in markdown.
+ *
+ * @param text - The text to escape.
+ * @returns The escaped text.
+ */
+function escapeMarkdown(text: string): string {
+	return text.replace(/[\\`*_[\]<>&]/g, "\\$&");
+}
+
+/**
+ * Wraps a text in a markdown code span, using enough backticks to keep backticks in the text.
+ *
+ * @param text - The text to wrap.
+ * @returns The markdown code span.
+ */
+function toCodeSpan(text: string): string {
+	const longestRun = Math.max(
+		0,
+		...(text.match(/`+/g) ?? []).map((run) => run.length),
+	);
+	const fence = "`".repeat(longestRun + 1);
+	const padding = text.startsWith("`") || text.endsWith("`") ? " " : "";
+
+	return `${fence}${padding}${text}${padding}${fence}`;
+}
+
+/**
+ * Replaces JSDoc `{@link}`, `{@linkcode}` and `{@linkplain}` tags with markdown.
+ *
+ * Links to URLs are rendered as links, while symbols are resolved to URLs with the link resolver.
+ * Symbols that are not resolved are rendered as code, or as plain text for `{@linkplain}`.
+ *
+ * Twoslash joins the parts of a JSDoc comment with newlines, so newlines around those links are removed.
+ *
+ * @param md - The markdown string containing the JSDoc links.
+ * @param linkResolver - Resolves the symbols of the links to URLs.
+ * @param text - The type information of the popup, passed to the link resolver.
+ * @returns A promise that resolves to the markdown string with the links replaced.
+ */
+export async function resolveJsDocLinks(
+	md: string,
+	linkResolver?: TwoslashLinkResolver,
+	text = "",
+): Promise<string> {
+	const replacements = await Promise.all(
+		Array.from(md.matchAll(reJsDocLink), async (match) => {
+			const [, before, tag, separator, content, after] = match;
+			const [, target = content.trim(), rawLabel] =
+				content.trim().match(reJsDocLinkLabel) ?? [];
+			const label = rawLabel?.replace(/\s+/g, " ");
+			const isUrl = reJsDocLinkUrl.test(target);
+
+			const url = isUrl
+				? target
+				: await linkResolver?.(target, {
+						tag: tag as TwoslashLinkContext["tag"],
+						label,
+						text,
+					});
+
+			const linkText =
+				tag === "linkcode" || (tag === "link" && !isUrl && !label)
+					? toCodeSpan(label ?? target)
+					: escapeMarkdown(label ?? target);
+			const markdown = url
+				? `[${linkText}](<${url.replace(/[<>\n]/g, encodeURIComponent)}>)`
+				: linkText;
+
+			return separator.includes("\n")
+				? markdown
+				: `${before}${markdown}${after}`;
+		}),
+	);
+
+	let index = 0;
+	return md.replace(reJsDocLink, () => replacements[index++]);
+}
+
 /**
  * Renders markdown content with code blocks using ExpressiveCode.
  *
@@ -25,14 +110,18 @@ import {
  *
  * @param md - The markdown string to be processed.
  * @param ec - An instance of ExpressiveCode used to render the code blocks.
+ * @param linkResolver - Resolves the symbols of JSDoc links to URLs.
+ * @param text - The type information of the popup, passed to the link resolver.
  * @returns A promise that resolves to an array of HAST nodes representing the processed markdown content.
  */
 export async function renderMarkdownWithCodeBlocks(
 	md: string,
 	ec: ExpressiveCode,
+	linkResolver?: TwoslashLinkResolver,
+	text?: string,
 ) {
 	const mdast = fromMarkdown(
-		md.replace(reJsDocLink, "$1"), // replace jsdoc links
+		await resolveJsDocLinks(md, linkResolver, text), // replace jsdoc links
 		{ mdastExtensions: [gfmFromMarkdown()] },
 	);
 
@@ -101,10 +190,22 @@ export async function renderMarkdownWithCodeBlocks(
  *
  * @param md - The markdown string to be rendered.
  * @param ec - The ExpressiveCode instance used for rendering.
+ * @param linkResolver - Resolves the symbols of JSDoc links to URLs.
+ * @param text - The type information of the popup, passed to the link resolver.
  * @returns A promise that resolves to the rendered children.
  */
-export async function renderMDInline(md: string, ec: ExpressiveCode) {
-	const children = await renderMarkdownWithCodeBlocks(md, ec);
+export async function renderMDInline(
+	md: string,
+	ec: ExpressiveCode,
+	linkResolver?: TwoslashLinkResolver,
+	text?: string,
+) {
+	const children = await renderMarkdownWithCodeBlocks(
+		md,
+		ec,
+		linkResolver,
+		text,
+	);
 
 	if (
 		children.length === 1 &&
@@ -200,16 +301,19 @@ export async function renderType(text: string, ec: ExpressiveCode) {
 /**
  * Renders JSDoc comments for a given hover node.
  *
- * @param hover - The hover node containing documentation and tags.
+ * @param hover - The hover node containing type information, documentation and tags.
  * @param includeJsDoc - A boolean indicating whether to include JSDoc comments.
  * @param ec - The ExpressiveCode instance used for rendering.
+ * @param allowNonStandardJsDocTags - A boolean indicating whether to include non-standard JSDoc tags.
+ * @param linkResolver - Resolves the symbols of JSDoc links to URLs.
  * @returns A promise that resolves to an object containing rendered documentation and tags.
  */
 export async function renderJSDocs(
-	hover: NodeHover | NodeQuery,
+	hover: Pick<NodeHover, "text" | "docs" | "tags">,
 	includeJsDoc: boolean,
 	ec: ExpressiveCode,
 	allowNonStandardJsDocTags: boolean,
+	linkResolver?: TwoslashLinkResolver,
 ): Promise<RenderJSDocs> {
 	if (!includeJsDoc) return { docs: [], tags: [] };
 	return {
@@ -218,7 +322,12 @@ export async function renderJSDocs(
 					h(
 						"p",
 						hover.docs
-							? await renderMarkdownWithCodeBlocks(hover.docs, ec)
+							? await renderMarkdownWithCodeBlocks(
+									hover.docs,
+									ec,
+									linkResolver,
+									hover.text,
+								)
 							: [],
 					),
 				])
@@ -246,7 +355,12 @@ export async function renderJSDocs(
 																: " ",
 															h(
 																"span.twoslash-popup-docs-tag-value",
-																await renderMDInline(tag[1], ec),
+																await renderMDInline(
+																	tag[1],
+																	ec,
+																	linkResolver,
+																	hover.text,
+																),
 															),
 														]
 													: [],
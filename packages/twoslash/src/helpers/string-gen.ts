@@ -1,49 +1,82 @@
 import type { NodeError } from "twoslash";
-import type { TwoslashTag } from "../types";
+import type { TwoslashTag, TwoslashTexts } from "../types";
 
 /**
  * Returns a string representation of a custom tag.
  *
- * @param tag - The custom tag to convert to a string. Can be one of "warn", "annotate", or "log".
- * @returns A string that represents the custom tag. Returns "Warning" for "warn", "Message" for "annotate",
- * "Log" for "log", and "Error" for any other value.
+ * @param tag - The custom tag to convert to a string. Can be one of "warn", "annotate", "log", "error" or any custom tag.
+ * @param texts - The texts in the locale of the code block.
+ * @returns A string that represents the custom tag. Returns the localized label for "warn", "annotate",
+ * "log" and "error", and the capitalized tag name for any other value.
  */
-export function getCustomTagString(tag: TwoslashTag): string {
+export function getCustomTagString(
+	tag: TwoslashTag | (string & {}),
+	texts: TwoslashTexts,
+): string {
 	switch (tag) {
 		case "warn":
-			return "Warning";
+			return texts.customTagWarn;
 		case "annotate":
-			return "Message";
+			return texts.customTagAnnotate;
 		case "log":
-			return "Log";
+			return texts.customTagLog;
+		case "error":
+			return texts.customTagError;
 		default:
-			return "Error";
+			return tag.charAt(0).toUpperCase() + tag.slice(1);
 	}
 }
 
 /**
  * Returns a custom CSS class name based on the provided TwoslashTag.
  *
- * @param tag - The TwoslashTag to get the custom class for. Possible values are "warn", "annotate", "log", or any other string.
+ * @param tag - The TwoslashTag to get the custom class for. Possible values are "warn", "annotate", "log", "error" or any custom tag.
  * @returns The corresponding CSS class name as a string.
  *          - "twoslash-custom-level-warning" for "warn"
  *          - "twoslash-custom-level-suggestion" for "annotate"
- *          - "twoslash-custom-level-message" for "log"
- *          - "twoslash-custom-level-error" for any other value
+ *          - "twoslash-custom-level-error" for "error"
+ *          - "twoslash-custom-level-message" for "log" and any other value
  */
-export function getCustomTagClass(tag: TwoslashTag): string {
+export function getCustomTagClass(tag: TwoslashTag | (string & {})): string {
 	switch (tag) {
 		case "warn":
 			return "twoslash-custom-level-warning";
 		case "annotate":
 			return "twoslash-custom-level-suggestion";
-		case "log":
-			return "twoslash-custom-level-message";
-		default:
+		case "error":
 			return "twoslash-custom-level-error";
+		default:
+			return "twoslash-custom-level-message";
 	}
 }
 
+/**
+ * Returns the CSS class name used for a custom tag with its own color.
+ *
+ * @param tag - The name of the custom tag.
+ * @returns The CSS class name, e.g. "twoslash-custom-tag-tip" for "tip".
+ */
+export function getCustomTagColorClass(tag: string): string {
+	return `twoslash-custom-tag-${tag.replace(/[^\w-]/g, "-")}`;
+}
+
+/**
+ * Returns the name of the style setting holding the color of a custom tag.
+ *
+ * @param tag - The name of the custom tag.
+ * @returns The name of the style setting, e.g. "customTagTipColor" for "tip".
+ */
+export function getCustomTagColorSetting(
+	tag: string,
+): `customTag${string}Color` {
+	const name = tag
+		.split(/[^a-zA-Z0-9]+/)
+		.map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+		.join("");
+
+	return `customTag${name}Color`;
+}
+
 /**
  * Returns a CSS class name based on the error level of the provided NodeError.
  *
@@ -73,21 +106,25 @@ export function getErrorLevelClass(error: NodeError): string {
  * Returns a string representation of the error level.
  *
  * @param error - The error object containing the level property.
- * @returns A string that represents the error level. Possible values are:
+ * @param texts - The texts in the locale of the code block.
+ * @returns A string that represents the error level. Possible values are the localized texts of:
  * - "Warning" for level "warning"
  * - "Suggestion" for level "suggestion"
  * - "Message" for level "message"
  * - "Error" for any other level
  */
-export function getErrorLevelString(error: NodeError): string {
+export function getErrorLevelString(
+	error: NodeError,
+	texts: TwoslashTexts,
+): string {
 	switch (error.level) {
 		case "warning":
-			return "Warning";
+			return texts.errorLevelWarning;
 		case "suggestion":
-			return "Suggestion";
+			return texts.errorLevelSuggestion;
 		case "message":
-			return "Message";
+			return texts.errorLevelMessage;
 		default:
-			return "Error";
+			return texts.errorLevelError;
 	}
 }
@@ -0,0 +1,86 @@
+import { dirname, resolve } from "node:path";
+import ts, { type CompilerOptions, type Diagnostic } from "typescript";
+
+/**
+ * Compiler options that only affect how a project is built and are not useful for code samples.
+ */
+const ignoredCompilerOptions = [
+	"configFilePath",
+	"composite",
+	"incremental",
+	"tsBuildInfoFile",
+	"outDir",
+	"outFile",
+	"rootDir",
+	"declarationDir",
+	"emitDeclarationOnly",
+] as const;
+
+/**
+ * Diagnostic codes that are ignored when parsing a tsconfig file.
+ *
+ * - `18003`: No inputs were found in the config file.
+ */
+const ignoredDiagnosticCodes = [18003];
+
+/**
+ * Formats TypeScript diagnostics into a human readable string.
+ *
+ * @param diagnostics - The diagnostics to format.
+ * @returns The formatted diagnostics.
+ */
+function formatDiagnostics(diagnostics: readonly Diagnostic[]): string {
+	return ts.formatDiagnostics(diagnostics, {
+		getCanonicalFileName: (fileName) => fileName,
+		getCurrentDirectory: ts.sys.getCurrentDirectory,
+		getNewLine: () => "\n",
+	});
+}
+
+/**
+ * Reads a tsconfig file and resolves its compiler options using the TypeScript API.
+ *
+ * Inherited configs (`extends`) are resolved, and relative paths (like `baseUrl`, `paths` and `typeRoots`)
+ * are made absolute, so that code samples type-check exactly like the project they belong to.
+ *
+ * @param tsconfigPath - The path to the tsconfig file, relative to the current working directory.
+ * @returns The resolved compiler options.
+ * @throws An error if the tsconfig file cannot be read or contains invalid options.
+ */
+export function loadTsconfigCompilerOptions(
+	tsconfigPath: string,
+): CompilerOptions {
+	const configPath = resolve(tsconfigPath);
+
+	const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+
+	if (error) {
+		throw new Error(
+			`Failed to read the tsconfig file "${configPath}":\n${formatDiagnostics([error])}`,
+		);
+	}
+
+	const { options, errors } = ts.parseJsonConfigFileContent(
+		config,
+		ts.sys,
+		dirname(configPath),
+		undefined,
+		configPath,
+	);
+
+	const relevantErrors = errors.filter(
+		(e) => !ignoredDiagnosticCodes.includes(e.code),
+	);
+
+	if (relevantErrors.length > 0) {
+		throw new Error(
+			`Failed to parse the tsconfig file "${configPath}":\n${formatDiagnostics(relevantErrors)}`,
+		);
+	}
+
+	for (const option of ignoredCompilerOptions) {
+		delete options[option];
+	}
+
+	return options;
+}
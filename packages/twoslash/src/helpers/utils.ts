@@ -1,4 +1,5 @@
 import type { ExpressiveCodeBlock } from "@expressive-code/core";
+import type { Root } from "@expressive-code/core/hast";
 import type { TwoslashOptions } from "twoslash";
 import { reTrigger, twoslashDefaultTags } from "./regex";
 
@@ -23,12 +24,14 @@ export function getTextWidthInPixels(
  * Ensures that there are no duplicate tags in the final list.
  *
  * @param twoslashOptions - The options object containing custom tags to be merged.
+ * @param rendererTags - The names of the tags that have a custom renderer.
  * @returns A new `TwoslashOptions` object with merged custom tags.
  */
 export function checkForCustomTagsAndMerge(
 	twoslashOptions: TwoslashOptions | undefined,
+	rendererTags: string[] = [],
 ) {
-	const customTags = twoslashOptions?.customTags ?? [];
+	const customTags = [...(twoslashOptions?.customTags ?? []), ...rendererTags];
 	const defaultTags = twoslashDefaultTags;
 
 	const allTags: string[] = [...defaultTags];
@@ -62,10 +65,27 @@ export function buildMetaChecker(
 	/**
 	 * A function that takes an `ExpressiveCodeBlock` and returns a boolean indicating whether the code block should be transformed.
 	 */
-	return function shouldTransform(codeBlock: ExpressiveCodeBlock): boolean {
+	return function shouldTransform(
+		codeBlock: Pick<ExpressiveCodeBlock, "language" | "meta">,
+	): boolean {
 		return (
 			languages.includes(codeBlock.language) &&
 			(!explicitTrigger || trigger.test(codeBlock.meta))
 		);
 	};
 }
+
+/**
+ * Checks if the parsed document provided by an integration (e.g. `rehype-expressive-code`) is a HAST root.
+ *
+ * @param documentRoot - The `documentRoot` of the parent document of a code block.
+ * @returns A boolean indicating whether nodes can be added to the document.
+ */
+export function isHastRoot(documentRoot: unknown): documentRoot is Root {
+	return (
+		typeof documentRoot === "object" &&
+		documentRoot !== null &&
+		(documentRoot as Root).type === "root" &&
+		Array.isArray((documentRoot as Root).children)
+	);
+}
@@ -1,5 +1,6 @@
 import { h } from "@expressive-code/core/hast";
-import type { CompletionIcons } from "../types";
+import type { ScriptElementKind } from "typescript";
+import type { CompletionIcon, CompletionIcons } from "../types";
 
 export const completionIcons: CompletionIcons = {
 	module: h("svg", { viewBox: "0 0 32 32", width: "1rem", height: "auto" }, [
@@ -127,4 +128,162 @@ export const completionIcons: CompletionIcons = {
 			[],
 		),
 	]),
+	variable: h("svg", { viewBox: "0 0 32 32", width: "1rem", height: "auto" }, [
+		h(
+			"path",
+			{
+				fill: "currentColor",
+				"fill-rule": "evenodd",
+				d: "M4 9h24v14H4zm2 2v10h20V11zm4 4h12v2H10z",
+			},
+			[],
+		),
+	]),
+	constant: h("svg", { viewBox: "0 0 32 32", width: "1rem", height: "auto" }, [
+		h(
+			"path",
+			{
+				fill: "currentColor",
+				"fill-rule": "evenodd",
+				d: "M4 9h24v14H4zm2 2v10h20V11zm4 2h12v2H10zm0 4h12v2H10z",
+			},
+			[],
+		),
+	]),
+	enum: h("svg", { viewBox: "0 0 32 32", width: "1rem", height: "auto" }, [
+		h(
+			"path",
+			{
+				fill: "currentColor",
+				"fill-rule": "evenodd",
+				d: "M4 4h16v12H4zm2 2v8h12V6zm6 10h16v12H12zm2 2v8h12v-8z",
+			},
+			[],
+		),
+	]),
+	enumMember: h(
+		"svg",
+		{ viewBox: "0 0 32 32", width: "1rem", height: "auto" },
+		[
+			h(
+				"path",
+				{
+					fill: "currentColor",
+					"fill-rule": "evenodd",
+					d: "M4 8h24v16H4zm2 2v12h20V10zm5 3h10v6H11z",
+				},
+				[],
+			),
+		],
+	),
+	keyword: h("svg", { viewBox: "0 0 32 32", width: "1rem", height: "auto" }, [
+		h(
+			"path",
+			{
+				fill: "currentColor",
+				"fill-rule": "evenodd",
+				d: "M4 8h24v2H4zm0 7h16v2H4zm0 7h20v2H4z",
+			},
+			[],
+		),
+	]),
+	typeParameter: h(
+		"svg",
+		{ viewBox: "0 0 32 32", width: "1rem", height: "auto" },
+		[
+			h(
+				"path",
+				{
+					fill: "currentColor",
+					"fill-rule": "evenodd",
+					d: "M9 8l-7 8l7 8h3l-7-8l7-8zm14 0l7 8l-7 8h-3l7-8l-7-8zm-11 3h8v2h-3v9h-2v-9h-3z",
+				},
+				[],
+			),
+		],
+	),
+	text: h("svg", { viewBox: "0 0 32 32", width: "1rem", height: "auto" }, [
+		h(
+			"path",
+			{
+				fill: "currentColor",
+				"fill-rule": "evenodd",
+				d: "M6 6h20v4h-8v16h-4V10H6z",
+			},
+			[],
+		),
+	]),
+	file: h("svg", { viewBox: "0 0 32 32", width: "1rem", height: "auto" }, [
+		h(
+			"path",
+			{
+				fill: "currentColor",
+				"fill-rule": "evenodd",
+				d: "M8 3h11l7 7v19H8zm2 2v22h14V11h-6V5zm10 1.8V9h2.2z",
+			},
+			[],
+		),
+	]),
+	folder: h("svg", { viewBox: "0 0 32 32", width: "1rem", height: "auto" }, [
+		h(
+			"path",
+			{
+				fill: "currentColor",
+				"fill-rule": "evenodd",
+				d: "M3 7h10l3 3h13v17H3zm2 2v16h22V12H15.2l-3-3z",
+			},
+			[],
+		),
+	]),
+};
+
+/**
+ * The icon used for each kind of completion entry (`ScriptElementKind`) returned by the language service.
+ *
+ * Kinds are grouped like in VS Code, e.g. local classes use the class icon and getters use the property icon.
+ */
+export const completionIconKinds: Record<
+	`${ScriptElementKind}`,
+	CompletionIcon
+> = {
+	"": "text",
+	warning: "text",
+	keyword: "keyword",
+	script: "file",
+	module: "module",
+	class: "class",
+	"local class": "class",
+	interface: "interface",
+	type: "typeParameter",
+	enum: "enum",
+	"enum member": "enumMember",
+	var: "variable",
+	"local var": "variable",
+	using: "variable",
+	"await using": "variable",
+	function: "function",
+	"local function": "function",
+	method: "method",
+	getter: "property",
+	setter: "property",
+	property: "property",
+	accessor: "property",
+	constructor: "constructor",
+	call: "method",
+	index: "method",
+	construct: "method",
+	parameter: "variable",
+	"type parameter": "typeParameter",
+	"primitive type": "keyword",
+	label: "text",
+	alias: "variable",
+	const: "constant",
+	let: "variable",
+	directory: "folder",
+	"external module name": "module",
+	"JSX attribute": "property",
+	string: "string",
+	link: "text",
+	"link name": "text",
+	"link text": "text",
 };
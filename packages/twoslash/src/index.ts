@@ -1,35 +1,128 @@
-import { type ExpressiveCodePlugin, definePlugin } from "@expressive-code/core";
-import { ExpressiveCode } from "expressive-code";
-import { createTwoslasher } from "twoslash";
+import { existsSync } from "node:fs";
+import { resolve } from "node:path";
+import {
+	type ExpressiveCodeAnnotation,
+	type ExpressiveCodeBlock,
+	type ExpressiveCodeLine,
+	type ExpressiveCodePlugin,
+	type ResolvedExpressiveCodeEngineConfig,
+	definePlugin,
+} from "@expressive-code/core";
+import { type Element, h, select } from "@expressive-code/core/hast";
+import {
+	type NodeCompletion,
+	type NodeError,
+	type NodeHover,
+	type NodeQuery,
+	type TwoslashReturn,
+	createTwoslasher,
+} from "twoslash";
 import ts, { type CompilerOptions } from "typescript";
+import { version as pluginVersion } from "../package.json";
 import {
 	TwoslashCompletionAnnotation,
 	TwoslashCustomTagsAnnotation,
 	TwoslashErrorBoxAnnotation,
+	TwoslashErrorInlineAnnotation,
 	TwoslashErrorUnderlineAnnotation,
 	TwoslashHighlightAnnotation,
 	TwoslashHoverAnnotation,
+	TwoslashProcessingErrorAnnotation,
 	TwoslashStaticAnnotation,
+	renderErrorBox,
+	renderHoverPopup,
 } from "./annotations";
 import {
+	TwoslashCache,
+	TwoslashIncludeRegistry,
 	TwoslashIncludesManager,
+	attachRelatedInformation,
 	buildMetaChecker,
+	buildPopupRendererGetter,
 	checkForCustomTagsAndMerge,
 	compareNodes,
-	ecConfig,
+	defaultIncludeSources,
+	emitTwoslashFiles,
+	formatCodeBlockLocation,
+	getCodeBlockLocation,
+	getErrorCodeUrl,
+	getErrorExplanation,
+	getProcessingErrorDetails,
+	hash,
+	isHastRoot,
+	loadTsconfigCompilerOptions,
+	parseEmitLayout,
+	parseEmitMeta,
+	parseErrorDisplay,
 	parseIncludeMeta,
+	parseLineMarkers,
 	processCompletion,
 	processTwoslashCodeBlock,
-	renderJSDocs,
-	renderType,
+	renderEmittedFiles,
+	renderErrorFooter,
+	restoreIncludeFileMarker,
+	restoreTwoslashReturn,
+	serializeTwoslashReturn,
+	setDiagnosticsLocale,
+	setupPopupInteractions,
+	splitNodeByLines,
+	withCompletionDetails,
+	withDiagnosticsRecorder,
 } from "./helpers";
 import floatingUiCore from "./module-code/floating-ui-core.min";
 import floatingUiDom from "./module-code/floating-ui-dom.min";
 import hoverDocsManager from "./module-code/popup.min";
-import { getTwoSlashBaseStyles, twoSlashStyleSettings } from "./styles";
-import type { PluginTwoslashOptions, TwoSlashStyleSettings } from "./types";
+import { getTwoSlashBaseStyles, getTwoSlashStyleSettings } from "./styles";
+import { pluginTwoslashTexts } from "./texts";
+import type {
+	NodeErrorWithRelatedInformation,
+	PluginTwoslashOptions,
+	TwoSlashStyleSettings,
+	TwoslashCacheEntry,
+	TwoslashCacheOptions,
+	TwoslashCompletionOptions,
+	TwoslashCustomTagRenderer,
+	TwoslashEmitLayout,
+	TwoslashEmittedFile,
+	TwoslashErrorCountLevel,
+	TwoslashErrorCountTexts,
+	TwoslashErrorDisplay,
+	TwoslashIncludesChange,
+	TwoslashLineMarkers,
+	TwoslashLinkContext,
+	TwoslashLinkResolver,
+	TwoslashPopup,
+	TwoslashPopupContent,
+	TwoslashPopupFallback,
+	TwoslashPopupOptions,
+	TwoslashPopupOutput,
+	TwoslashPopupPlacement,
+	TwoslashTexts,
+} from "./types";
+
+export { pluginTwoslashTexts };
 
-export type { PluginTwoslashOptions, TwoSlashStyleSettings };
+export type {
+	PluginTwoslashOptions,
+	TwoSlashStyleSettings,
+	TwoslashCacheOptions,
+	TwoslashCompletionOptions,
+	TwoslashCustomTagRenderer,
+	TwoslashEmitLayout,
+	TwoslashEmittedFile,
+	TwoslashErrorCountLevel,
+	TwoslashErrorCountTexts,
+	TwoslashErrorDisplay,
+	TwoslashIncludesChange,
+	TwoslashLineMarkers,
+	TwoslashLinkContext,
+	TwoslashLinkResolver,
+	TwoslashPopupOptions,
+	TwoslashPopupFallback,
+	TwoslashPopupOutput,
+	TwoslashPopupPlacement,
+	TwoslashTexts,
+};
 
 declare module "@expressive-code/core" {
 	export interface StyleSettings {
@@ -67,7 +160,25 @@ const defaultCompilerOptions: CompilerOptions = {
  * @param {Boolean | RegExp} options.explicitTrigger - Settings for the explicit trigger.
  * @param {String[]} options.languages - The languages to apply this transformer to.
  * @param {Boolean} options.includeJsDoc - If `true`, includes JSDoc comments in the hover popup.
+ * @param {TwoslashLinkResolver} options.linkResolver - Resolves the symbols of JSDoc links to URLs.
+ * @param {"inline" | "island"} options.popupOutput - How the contents of hover popups are included in the page.
+ * @param {TwoslashPopupOptions} options.popups - Options for the interactions with hover popups and their fallback without JavaScript.
  * @param {PluginTwoslashOptions['twoslashOptions']} options.twoslashOptions - Options to forward to `twoslash`.
+ * @param {Boolean | TwoslashCacheOptions} options.cache - Persist Twoslash results on disk between builds.
+ * @param {"throw" | "warn" | "render"} options.onError - What to do when Twoslash fails to process a code block.
+ * @param {"box" | "hover" | "inline" | "summary"} options.errorDisplay - How errors are shown.
+ * @param {"authored" | "rendered"} options.lineMarkers - Which lines the line markers of other plugins refer to.
+ * @param {Boolean} options.errorFooter - Shows a footer counting the errors of code blocks and linking to their lines.
+ * @param {String | Function} options.errorCodeUrl - The URL of the explanation page of an error code.
+ * @param {Boolean | Record<Number, String>} options.errorExplanations - Shows short explanations of errors in error boxes.
+ * @param {Boolean} options.localizeDiagnostics - Produces the text of diagnostics in the locale of the code block.
+ * @param {String} options.tsconfig - Path to a tsconfig file to load compiler options from.
+ * @param {String} options.includesRoot - The directory `// @include-file:` paths are resolved from.
+ * @param {String[]} options.includeSources - Markdown files or directories to scan for `include` code blocks up front, defaults to the content directories.
+ * @param {Function} options.onIncludesChange - Called when includes change while rendering a document again.
+ * @param {"tabs" | "side-by-side"} options.emitLayout - How code blocks show their source and emitted files.
+ * @param {TwoslashCompletionOptions} options.completions - Options for the completion lists.
+ * @param {Record<String, TwoslashCustomTagRenderer>} options.customTagRenderers - Renderers for custom tags.
  * @see https://twoslash.matthiesen.dev for the full documentation.
  * @returns A plugin object with the specified configuration.
  */
@@ -82,9 +193,51 @@ export default function ecTwoSlash(
 		languages = ["ts", "tsx"],
 		includeJsDoc = true,
 		allowNonStandardJsDocTags = false,
-		twoslashOptions = checkForCustomTagsAndMerge(options.twoslashOptions),
+		linkResolver,
+		popupOutput = "inline",
+		popups: popupOptions = {},
+		cache = false,
+		onError = "throw",
+		errorDisplay = "box",
+		errorFooter = false,
+		lineMarkers = "authored",
+		errorCodeUrl,
+		errorExplanations = false,
+		localizeDiagnostics = false,
+		tsconfig,
+		includesRoot = process.cwd(),
+		includeSources,
+		onIncludesChange,
+		emitLayout = "tabs",
+		completions = {},
+		customTagRenderers = {},
 	} = options;
 
+	/**
+	 * The options forwarded to Twoslash, including the default and custom tags.
+	 */
+	const twoslashOptions = checkForCustomTagsAndMerge(
+		options.twoslashOptions,
+		Object.keys(customTagRenderers),
+	);
+
+	/**
+	 * Compiler options loaded from the project tsconfig, if provided.
+	 */
+	const tsconfigCompilerOptions = tsconfig
+		? loadTsconfigCompilerOptions(tsconfig)
+		: {};
+
+	/**
+	 * The diagnostics with related information recorded while the twoslasher runs.
+	 */
+	const recordedDiagnostics: ts.Diagnostic[] = [];
+
+	/**
+	 * The TypeScript module used by Twoslash, without the wrappers of this plugin.
+	 */
+	const tsModule = twoslashOptions.tsModule ?? ts;
+
 	/**
 	 * Initializes and returns a new instance of the Twoslasher.
 	 *
@@ -92,43 +245,445 @@ export default function ecTwoSlash(
 	 */
 	const twoslasher = createTwoslasher({
 		...twoslashOptions,
+		// Completion details and related information can only be requested while Twoslash runs the language service
+		tsModule: withDiagnosticsRecorder(
+			completions.details
+				? withCompletionDetails(tsModule, completions)
+				: tsModule,
+			recordedDiagnostics,
+		),
 	});
 
 	const shouldTransform = buildMetaChecker(languages, explicitTrigger);
 
-	const includesMap = new Map();
+	/**
+	 * Returns the popup renderer (and its nested Expressive Code engine) for a resolved config.
+	 */
+	const getPopupRenderer = buildPopupRendererGetter(
+		includeJsDoc,
+		allowNonStandardJsDocTags,
+		linkResolver,
+	);
+
+	/**
+	 * The `include` code blocks of all documents, scanned before their code blocks are processed.
+	 */
+	const includeRegistry = new TwoslashIncludeRegistry(shouldTransform);
+	// The default content directories do not exist in every project
+	includeRegistry.scanSources(
+		includeSources ??
+			defaultIncludeSources.filter((path) => existsSync(resolve(path))),
+	);
+
+	/**
+	 * The original code of code blocks without a title, used to restore `// @include-file:` markers.
+	 */
+	const untitledCode = new WeakMap<ExpressiveCodeBlock, string>();
+
+	/**
+	 * The ids of the lines that related information of errors links to.
+	 */
+	const lineAnchors = new WeakMap<ExpressiveCodeLine, string>();
+
+	/**
+	 * The emitted files shown next to the source of code blocks, with their rendered `pre` elements
+	 * and the id of their radio buttons.
+	 */
+	const emittedPanes = new WeakMap<
+		ExpressiveCodeBlock,
+		{
+			id: string;
+			layout: TwoslashEmitLayout;
+			sourceName: string;
+			files: { filename: string; pre: Element }[];
+		}
+	>();
+
+	/**
+	 * The islands of hover popups rendered as an island, with the ids of the distinct popups they hold.
+	 *
+	 * Code blocks of a document share one island, keyed by the parsed document.
+	 * Code blocks rendered without a document get their own island, keyed by the code block.
+	 */
+	const popupIslands = new WeakMap<
+		object,
+		{ template: Element; popupIds: Set<string> }
+	>();
+
+	/**
+	 * The errors of code blocks listed below them with the `summary` error display.
+	 */
+	const errorSummaries = new WeakMap<ExpressiveCodeBlock, Element[]>();
+
+	/**
+	 * The errors of code blocks with a footer, with the ids of their lines.
+	 */
+	const errorFooters = new WeakMap<
+		ExpressiveCodeBlock,
+		{ error: NodeError; anchor: string }[]
+	>();
+
+	/**
+	 * The types and docs of the hovers of code blocks, listed below them when JavaScript is disabled.
+	 */
+	const popupFootnotes = new WeakMap<
+		ExpressiveCodeBlock,
+		Map<string, Element>
+	>();
+
+	/**
+	 * Counts the code blocks with the same code in each document, keyed by the hash of their code,
+	 * to give each of them unique ids.
+	 */
+	const blockOccurrences = new WeakMap<object, Map<string, number>>();
+
+	/**
+	 * The on-disk cache for Twoslash results, if enabled.
+	 */
+	const twoslashCache = cache
+		? new TwoslashCache(cache === true ? {} : cache)
+		: undefined;
+
+	/**
+	 * Hashes of the themes used by each Expressive Code config, as they are part of the cache key.
+	 */
+	const themeHashes = new WeakMap<object, string>();
+
+	/**
+	 * Returns the island of hover popups a code block adds its popups to.
+	 *
+	 * The island of a document is added to the end of the parsed document provided by the integration
+	 * (e.g. `rehype-expressive-code`) when it is created, and receives the popups of all its code blocks.
+	 *
+	 * @param codeBlock - The code block to return the island for.
+	 * @returns The template element of the island and the ids of the popups it holds.
+	 */
+	function getPopupIsland(codeBlock: ExpressiveCodeBlock) {
+		const { documentRoot } = codeBlock.parentDocument ?? {};
+		const root = isHastRoot(documentRoot) ? documentRoot : undefined;
+		const owner = root ?? codeBlock;
+
+		let island = popupIslands.get(owner);
+		if (!island) {
+			island = { template: h("template.twoslash-popups"), popupIds: new Set() };
+			popupIslands.set(owner, island);
+			root?.children.push(island.template);
+		}
+
+		return island;
+	}
+
+	/**
+	 * Reports an error that prevented Twoslash from processing a code block, according to the `onError` option.
+	 *
+	 * @param error - The error that was thrown.
+	 * @param codeBlock - The code block that failed to process.
+	 * @param logger - The logger of the Expressive Code engine.
+	 */
+	function handleProcessingError(
+		error: unknown,
+		codeBlock: ExpressiveCodeBlock,
+		logger: ResolvedExpressiveCodeEngineConfig["logger"],
+		texts: TwoslashTexts,
+	) {
+		const location = getCodeBlockLocation(codeBlock);
+		const { title, description } = getProcessingErrorDetails(error);
+		const message = `Twoslash failed to process the code block in ${formatCodeBlockLocation(location)}: ${title}\n${description}`;
+
+		if (onError === "throw") {
+			logger.error(message);
+			throw error;
+		}
+
+		logger.warn(message);
+
+		if (onError === "render") {
+			const lines = codeBlock.getLines();
+			const lastLine = lines[lines.length - 1];
+
+			if (lastLine) {
+				lastLine.addAnnotation(
+					new TwoslashProcessingErrorAnnotation(
+						title,
+						description,
+						lastLine,
+						texts,
+					),
+				);
+			}
+		}
+	}
+
+	/**
+	 * Reports includes that changed while rendering a document again, according to the `onIncludesChange` option.
+	 *
+	 * @param change - The changed includes and the documents using them.
+	 * @param logger - The logger of the Expressive Code engine.
+	 */
+	function handleIncludesChange(
+		change: TwoslashIncludesChange,
+		logger: ResolvedExpressiveCodeEngineConfig["logger"],
+	) {
+		if (onIncludesChange) {
+			onIncludesChange(change);
+			return;
+		}
+
+		if (change.documents.length === 0) return;
+
+		logger.info(
+			`The Twoslash includes ${change.includes.join(", ")} changed. These documents use them and need to be rendered again:\n${change.documents.join("\n")}`,
+		);
+	}
 
 	return definePlugin({
 		name: "expressive-code-twoslash",
 		jsModules: [floatingUiCore, floatingUiDom, hoverDocsManager],
-		styleSettings: twoSlashStyleSettings,
-		baseStyles: (context) => getTwoSlashBaseStyles(context),
+		styleSettings: getTwoSlashStyleSettings(customTagRenderers),
+		baseStyles: (context) => getTwoSlashBaseStyles(context, customTagRenderers),
 		hooks: {
-			async preprocessCode({ codeBlock, config }) {
+			postprocessRenderedBlock({ codeBlock, renderData, locale }) {
+				if (!shouldTransform(codeBlock)) return;
+
+				const texts = pluginTwoslashTexts.get(locale);
+
+				setupPopupInteractions(renderData.blockAst, popupOptions, texts);
+
+				const errors = errorSummaries.get(codeBlock);
+				if (errors) {
+					renderData.blockAst.children.push(
+						h("details.twoslash-error-summary", [
+							h("summary", `${texts.errorSummary} (${errors.length})`),
+							h("ul", errors),
+						]),
+					);
+				}
+
+				const footnotes = popupFootnotes.get(codeBlock);
+				if (footnotes) {
+					renderData.blockAst.children.push(
+						h("aside.twoslash-footnotes", { "aria-label": texts.footnotes }, [
+							h("ol", [...footnotes.values()]),
+						]),
+					);
+				}
+
+				const footer = errorFooters.get(codeBlock);
+				if (footer) {
+					renderData.blockAst.children.push(
+						renderErrorFooter(footer, texts, locale),
+					);
+				}
+
+				// Code blocks without a document include their own island
+				const island = popupIslands.get(codeBlock);
+				if (island) renderData.blockAst.children.push(island.template);
+
+				const emit = emittedPanes.get(codeBlock);
+				if (!emit) return;
+
+				renderEmittedFiles(
+					renderData.blockAst,
+					emit.id,
+					emit.layout,
+					emit.sourceName,
+					emit.files,
+				);
+			},
+			postprocessRenderedLine({ line, renderData }) {
+				const anchor = lineAnchors.get(line);
+				if (anchor) renderData.lineAst.properties.id = anchor;
+			},
+			preprocessMetadata({ codeBlock }) {
+				if (shouldTransform(codeBlock) && codeBlock.props.title === undefined) {
+					untitledCode.set(codeBlock, codeBlock.code);
+				}
+			},
+			async preprocessCode({ codeBlock, config, locale }) {
 				if (shouldTransform(codeBlock)) {
+					const texts = pluginTwoslashTexts.get(locale);
+
+					// Restore a file include marker that was mistaken for a file name
+					const originalCode = untitledCode.get(codeBlock);
+					if (originalCode) restoreIncludeFileMarker(codeBlock, originalCode);
+
+					// Register the includes of the whole document before processing any of its code blocks
+					const { sourceFilePath, documentRoot } =
+						codeBlock.parentDocument ?? {};
+					const documentPath = documentRoot ? sourceFilePath : undefined;
+
+					if (documentPath) {
+						const change = includeRegistry.scanDocument(
+							documentPath,
+							documentRoot,
+						);
+						if (change) handleIncludesChange(change, config.logger);
+					}
+
 					// Create a new instance of the TwoslashIncludesManager
-					const includes = new TwoslashIncludesManager(includesMap);
+					const includes = new TwoslashIncludesManager(
+						includeRegistry.map,
+						includesRoot,
+					);
 
-					// Create a new instance of the Expressive Code Engine for use in the plugin
-					const ecEngine = new ExpressiveCode(ecConfig(config));
+					let codeWithIncludes: string;
+					let twoslash: TwoslashReturn;
+					let emitted: TwoslashEmittedFile[] = [];
+					let cacheKey: string | undefined;
+					let cached: TwoslashCacheEntry | undefined;
 
-					// Apply the includes to the code block
-					const codeWithIncludes = includes.applyInclude(codeBlock.code);
+					try {
+						// Apply the includes to the code block
+						codeWithIncludes = includes.applyInclude(codeBlock.code);
 
-					// Parse the include meta
-					const include = parseIncludeMeta(codeBlock.meta);
+						if (documentPath) {
+							// Track the used includes, so that changes to them can be reported
+							includeRegistry.addDependencies(documentPath, includes.used);
+						} else {
+							// Includes of code blocks outside of a scanned document are added as they are processed
+							const include = parseIncludeMeta(codeBlock.meta);
+							if (include) includeRegistry.define(include, codeBlock.code);
+						}
 
-					// Add the include to the includes map if it exists
-					if (include) includes.add(include, codeWithIncludes);
+						// The emitted files to show next to the source
+						const emitFiles = parseEmitMeta(codeBlock);
 
-					// Twoslash the code block
-					const twoslash = twoslasher(codeWithIncludes, codeBlock.language, {
-						...twoslashOptions,
-						compilerOptions: {
+						// Per-block `// @` flags are applied on top of these by Twoslash
+						const compilerOptions = {
 							...defaultCompilerOptions,
+							...tsconfigCompilerOptions,
 							...(twoslashOptions?.compilerOptions ?? {}),
-						},
-					});
+						};
+
+						// Look up the code block in the cache
+						if (twoslashCache) {
+							let themeHash = themeHashes.get(config);
+							if (!themeHash) {
+								themeHash = hash(config.themes);
+								themeHashes.set(config, themeHash);
+							}
+
+							// The TypeScript module is part of the key by its version only
+							const { tsModule: _tsModule, ...keyedTwoslashOptions } =
+								twoslashOptions;
+
+							cacheKey = twoslashCache.getKey(
+								pluginVersion,
+								tsModule.version,
+								codeBlock.language,
+								compilerOptions,
+								keyedTwoslashOptions,
+								includeJsDoc,
+								allowNonStandardJsDocTags,
+								linkResolver,
+								customTagRenderers,
+								popupOptions,
+								completions,
+								themeHash,
+								emitFiles,
+								localizeDiagnostics ? locale : undefined,
+								codeWithIncludes,
+							);
+							cached = await twoslashCache.get(cacheKey);
+						}
+
+						// Twoslash the code block
+						if (cached) {
+							twoslash = restoreTwoslashReturn(cached.twoslash);
+							emitted = cached.emitted ?? [];
+						} else {
+							recordedDiagnostics.length = 0;
+
+							if (localizeDiagnostics) setDiagnosticsLocale(tsModule, locale);
+							try {
+								twoslash = twoslasher(codeWithIncludes, codeBlock.language, {
+									...twoslashOptions,
+									compilerOptions,
+								});
+							} finally {
+								// Other users of the TypeScript module expect English diagnostics
+								if (localizeDiagnostics) setDiagnosticsLocale(tsModule, "en");
+							}
+							attachRelatedInformation(twoslash, recordedDiagnostics, tsModule);
+
+							emitted = emitTwoslashFiles(
+								twoslasher,
+								codeWithIncludes,
+								codeBlock.language,
+								{ ...twoslashOptions, compilerOptions },
+								emitFiles,
+							);
+						}
+					} catch (error) {
+						handleProcessingError(error, codeBlock, config.logger, texts);
+						return;
+					}
+
+					// The rendered popups, keyed by node type and position
+					const popups: Record<string, TwoslashPopup> = cached?.popups ?? {};
+
+					/**
+					 * Returns the rendered popup for the given node, rendering it if it is not cached.
+					 */
+					const getPopup = async (
+						node: NodeHover | NodeQuery | NodeCompletion,
+						content: TwoslashPopupContent,
+					) => {
+						const key = `${node.type}:${node.start}`;
+
+						popups[key] ??= await getPopupRenderer(config).render(content);
+
+						return popups[key];
+					};
+
+					// Identifies the code block in the ids of its lines and popups, so links to them stay stable,
+					// where identical code blocks of a document are told apart by their occurrence
+					const codeHash = hash(twoslash.code).slice(0, 8);
+					let occurrence = 1;
+
+					if (typeof documentRoot === "object" && documentRoot !== null) {
+						let occurrences = blockOccurrences.get(documentRoot);
+						if (!occurrences) {
+							occurrences = new Map();
+							blockOccurrences.set(documentRoot, occurrences);
+						}
+
+						occurrence = (occurrences.get(codeHash) ?? 0) + 1;
+						occurrences.set(codeHash, occurrence);
+					}
+
+					const blockId =
+						occurrence === 1
+							? `twoslash-${codeHash}`
+							: `twoslash-${codeHash}-${occurrence}`;
+
+					// Show the emitted files next to the source
+					if (emitted.length > 0) {
+						const { virtualFiles } = twoslash.meta;
+						const { ec } = getPopupRenderer(config);
+
+						emittedPanes.set(codeBlock, {
+							id: `${blockId}-emit`,
+							layout: parseEmitLayout(codeBlock, emitLayout),
+							sourceName:
+								virtualFiles.length === 1
+									? virtualFiles[0].filename
+									: texts.emitSource,
+							files: await Promise.all(
+								emitted.map(async ({ filename, code, language }) => {
+									const { renderedGroupAst } = await ec.render({
+										code,
+										language,
+									});
+
+									return {
+										filename,
+										pre: select("pre", renderedGroupAst) ?? h("pre"),
+									};
+								}),
+							),
+						});
+					}
 
 					// Update EC code block with the twoslash information
 					if (twoslash.extension) {
@@ -136,15 +691,155 @@ export default function ecTwoSlash(
 					}
 
 					// Process the Twoslash code block and replace the EC code block with the Twoslash code block
-					processTwoslashCodeBlock(codeBlock, codeWithIncludes, twoslash.code);
+					processTwoslashCodeBlock(
+						codeBlock,
+						twoslash,
+						includes.expansions,
+						parseLineMarkers(codeBlock, lineMarkers),
+					);
+
+					/**
+					 * Returns the id of the popup of a node, if popups have an action bar to copy links to them.
+					 */
+					const getPopupAnchor = (node: NodeHover | NodeQuery) =>
+						popupOptions.actions === true
+							? `${blockId}-L${node.line + 1}C${node.character + 1}`
+							: undefined;
+
+					/**
+					 * Adds an annotation to every line a node covers, created for the part of the node on that line.
+					 */
+					const annotateNodeLines = <
+						T extends Pick<
+							NodeHover,
+							"start" | "length" | "line" | "character"
+						>,
+					>(
+						node: T,
+						createAnnotation: (
+							part: T,
+							index: number,
+						) => ExpressiveCodeAnnotation,
+					) => {
+						for (const [index, part] of splitNodeByLines(
+							twoslash.code,
+							node,
+						).entries()) {
+							codeBlock
+								.getLine(part.line)
+								?.addAnnotation(createAnnotation({ ...node, ...part }, index));
+						}
+					};
 
 					// Process the Twoslash Error Annotations
-					for (const node of twoslash.errors) {
+					const display = parseErrorDisplay(codeBlock, errorDisplay);
+					const showFooter =
+						codeBlock.metaOptions.getBoolean("errorFooter") ?? errorFooter;
+
+					for (const node of twoslash.errors as NodeErrorWithRelatedInformation[]) {
 						const line = codeBlock.getLine(node.line);
 
 						if (line) {
-							line.addAnnotation(new TwoslashErrorUnderlineAnnotation(node));
-							line.addAnnotation(new TwoslashErrorBoxAnnotation(node, line));
+							// Give the lines of related locations an id, so they can be linked to
+							const relatedAnchors = (node.related ?? []).map((info) => {
+								const relatedLine =
+									info.inCodeBlock && info.line !== undefined
+										? codeBlock.getLine(info.line)
+										: undefined;
+								if (!relatedLine) return undefined;
+
+								const anchor =
+									lineAnchors.get(relatedLine) ??
+									`${blockId}-L${(info.line ?? 0) + 1}`;
+								lineAnchors.set(relatedLine, anchor);
+
+								return anchor;
+							});
+
+							// Give the line of the error an id, so the footer can link to it
+							if (showFooter) {
+								const anchor =
+									lineAnchors.get(line) ?? `${blockId}-L${node.line + 1}`;
+								lineAnchors.set(line, anchor);
+
+								let footer = errorFooters.get(codeBlock);
+								if (!footer) {
+									footer = [];
+									errorFooters.set(codeBlock, footer);
+								}
+								footer.push({ error: node, anchor });
+							}
+
+							const codeUrl = getErrorCodeUrl(node, errorCodeUrl);
+							const explanation = getErrorExplanation(node, errorExplanations);
+
+							// Errors spanning multiple lines are shown after their last line
+							const parts = splitNodeByLines(twoslash.code, node);
+							const lastLine =
+								codeBlock.getLine(parts[parts.length - 1].line) ?? line;
+
+							if (display === "box") {
+								annotateNodeLines(
+									node,
+									(part) => new TwoslashErrorUnderlineAnnotation(part),
+								);
+								lastLine.addAnnotation(
+									new TwoslashErrorBoxAnnotation(
+										node,
+										lastLine,
+										texts,
+										codeUrl,
+										explanation,
+										relatedAnchors,
+									),
+								);
+							} else if (display === "hover") {
+								const popup = renderErrorBox(
+									node,
+									texts,
+									codeUrl,
+									explanation,
+									relatedAnchors,
+								);
+
+								annotateNodeLines(
+									node,
+									(part) => new TwoslashErrorUnderlineAnnotation(part, popup),
+								);
+							} else {
+								annotateNodeLines(
+									node,
+									(part) => new TwoslashErrorUnderlineAnnotation(part),
+								);
+
+								if (display === "inline") {
+									lastLine.addAnnotation(
+										new TwoslashErrorInlineAnnotation(node, lastLine, texts),
+									);
+								} else {
+									let errors = errorSummaries.get(codeBlock);
+									if (!errors) {
+										errors = [];
+										errorSummaries.set(codeBlock, errors);
+									}
+
+									errors.push(
+										h("li", [
+											h(
+												"span.twoslash-error-summary-location",
+												`${node.line + 1}:${node.character + 1}`,
+											),
+											renderErrorBox(
+												node,
+												texts,
+												codeUrl,
+												explanation,
+												relatedAnchors,
+											),
+										]),
+									);
+								}
+							}
 						}
 					}
 
@@ -153,17 +848,16 @@ export default function ecTwoSlash(
 						const line = codeBlock.getLine(node.line);
 
 						if (line) {
+							const { codeType, renderedDocs } = await getPopup(node, node);
+
 							line.addAnnotation(
 								new TwoslashStaticAnnotation(
 									node,
 									line,
-									await renderType(node.text, ecEngine),
-									await renderJSDocs(
-										node,
-										includeJsDoc,
-										ecEngine,
-										allowNonStandardJsDocTags,
-									),
+									codeType,
+									renderedDocs,
+									texts,
+									getPopupAnchor(node),
 								),
 							);
 						}
@@ -171,10 +865,10 @@ export default function ecTwoSlash(
 
 					// Process the Twoslash Highlight Annotations
 					for (const node of twoslash.highlights) {
-						const line = codeBlock.getLine(node.line);
-						if (line) {
-							line.addAnnotation(new TwoslashHighlightAnnotation(node));
-						}
+						annotateNodeLines(
+							node,
+							(part) => new TwoslashHighlightAnnotation(part),
+						);
 					}
 
 					// Process the Twoslash Hover Annotations
@@ -202,17 +896,67 @@ export default function ecTwoSlash(
 						const line = codeBlock.getLine(node.line);
 
 						if (line) {
-							line.addAnnotation(
-								new TwoslashHoverAnnotation(
-									node,
-									await renderType(node.text, ecEngine),
-									await renderJSDocs(
-										node,
-										includeJsDoc,
-										ecEngine,
-										allowNonStandardJsDocTags,
+							const { codeType, renderedDocs } = await getPopup(node, node);
+							const anchor = getPopupAnchor(node);
+
+							// Hovers with the same contents share one popup in the island of the page
+							let popupId: string | undefined;
+							if (popupOutput === "island") {
+								popupId = `twoslash-popup-${hash([codeType, renderedDocs]).slice(0, 12)}`;
+
+								const island = getPopupIsland(codeBlock);
+
+								if (!island.popupIds.has(popupId)) {
+									const popup = renderHoverPopup(
+										codeType,
+										renderedDocs,
+										texts,
+										anchor !== undefined ? node.text : undefined,
+									);
+									popup.properties["data-twoslash-popup"] = popupId;
+									island.popupIds.add(popupId);
+									island.template.children.push(popup);
+								}
+							}
+
+							// Hovers with the same contents share one footnote
+							if (popupOptions.fallback === "footnotes") {
+								const footnoteKey = JSON.stringify([
+									node.text,
+									node.docs,
+									node.tags,
+								]);
+
+								let footnotes = popupFootnotes.get(codeBlock);
+								if (!footnotes) {
+									footnotes = new Map();
+									popupFootnotes.set(codeBlock, footnotes);
+								}
+
+								if (!footnotes.has(footnoteKey)) {
+									footnotes.set(
+										footnoteKey,
+										h("li", [
+											h("code.twoslash-footnote-type", node.text),
+											structuredClone(renderedDocs.docs),
+											structuredClone(renderedDocs.tags),
+										]),
+									);
+								}
+							}
+
+							// Only the first part of a hover spanning multiple lines can be linked to
+							annotateNodeLines(
+								node,
+								(part, index) =>
+									new TwoslashHoverAnnotation(
+										part,
+										codeType,
+										renderedDocs,
+										texts,
+										popupId,
+										index === 0 ? anchor : undefined,
 									),
-								),
 							);
 						}
 					}
@@ -220,7 +964,7 @@ export default function ecTwoSlash(
 					// Process the Twoslash Completion Annotations
 					for (const node of twoslash.completions) {
 						// Process the completion item
-						const processed = processCompletion(node);
+						const processed = processCompletion(node, completions);
 						const line = codeBlock.getLine(node.line);
 
 						if (line) {
@@ -250,8 +994,17 @@ export default function ecTwoSlash(
 								}
 							}
 
+							const details = processed.details
+								? await getPopup(node, processed.details)
+								: undefined;
+
 							line.addAnnotation(
-								new TwoslashCompletionAnnotation(processed, node, line),
+								new TwoslashCompletionAnnotation(
+									processed,
+									node,
+									line,
+									details,
+								),
 							);
 						}
 					}
@@ -261,7 +1014,29 @@ export default function ecTwoSlash(
 						const line = codeBlock.getLine(node.line);
 
 						if (line) {
-							line.addAnnotation(new TwoslashCustomTagsAnnotation(node, line));
+							line.addAnnotation(
+								new TwoslashCustomTagsAnnotation(
+									node,
+									line,
+									texts,
+									customTagRenderers[node.name],
+								),
+							);
+						}
+					}
+
+					// Store the result in the cache for the next build
+					if (twoslashCache && cacheKey && !cached) {
+						try {
+							await twoslashCache.set(cacheKey, {
+								twoslash: serializeTwoslashReturn(twoslash),
+								popups,
+								...(emitted.length > 0 && { emitted }),
+							});
+						} catch (error) {
+							config.logger.warn(
+								`Failed to write the Twoslash cache entry to "${twoslashCache.dir}": ${error}`,
+							);
 						}
 					}
 				}
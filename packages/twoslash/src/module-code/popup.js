@@ -1,136 +1,486 @@
 // This file is used to create the popups for the twoslash code blocks
 // It uses the floating-ui library to position the popup
-// It also uses the MutationObserver to update the popups when the page changes
-// It also listens for the astro:page-load event to update the popups when the page is loaded
+// The events of all hovers are handled by listeners on the document, so hovers added later work without setup
+// Each code block has a single popup element, which shows the contents of the hover it is opened for
+// Popups rendered as an island are only created from their template when they are first shown
+// Popups can be pinned by clicking their hover, and hovers can be navigated with the arrow keys
+// The action bar of popups copies their type or a link, which opens the popup when the page is loaded with it
+// It exposes the `window.twoslash` API to handle popups in other roots (e.g. shadow roots) and with other routers
 
-function setupTooltip(ToolTip, isMobileScreen) {
-	const hoverAnnotation = ToolTip.querySelector(".twoslash-popup-container");
-	const expressiveCodeBlock = hoverAnnotation.closest(".expressive-code");
+// The default delays before a popup opens and closes, used if the code block does not set them
+const DefaultOpenDelay = 0; // ms
+const DefaultCloseDelay = 100; // ms
 
-	// Ensure each tooltip has a unique ID for `aria-describedby`
-	const randomId = `twoslash_popup_${[Math.random(), Date.now()].map((n) => n.toString(36).substring(2, 10)).join("_")}`;
+// The popups of the islands on the page, keyed by their id
+const popupTemplates = new Map();
 
-	// Set role and tabindex for accessibility
-	hoverAnnotation.setAttribute("role", "tooltip");
-	hoverAnnotation.setAttribute("tabindex", "-1");
+function findPopupTemplate(popupId, root) {
+	if (!popupTemplates.has(popupId)) {
+		for (const island of root.querySelectorAll("template.twoslash-popups")) {
+			const template = island.content.querySelector(
+				`[data-twoslash-popup="${popupId}"]`,
+			);
+			if (template) {
+				popupTemplates.set(popupId, template);
+				break;
+			}
+		}
+	}
+
+	return popupTemplates.get(popupId);
+}
+
+// Returns the contents of the popup of a hover, either rendered inline or in an island
+function getPopupContents(hover) {
+	const inline = hover.querySelector(":scope > .twoslash-popup-container");
+	if (inline) return inline;
+
+	const popupId = hover.getAttribute("data-twoslash-popup");
+	return popupId ? findPopupTemplate(popupId, hover.getRootNode()) : undefined;
+}
+
+// Returns the popup element of a code block, creating it when it is first needed
+function getSharedPopup(expressiveCodeBlock) {
+	let popup = expressiveCodeBlock.querySelector(
+		":scope > .twoslash-popup-shared",
+	);
+
+	if (!popup) {
+		popup = document.createElement("div");
+		popup.className =
+			"twoslash-popup-container twoslash-popup-shared not-content";
+
+		// Ensure each popup has a unique ID for `aria-describedby`
+		popup.id = `twoslash_popup_${[Math.random(), Date.now()].map((n) => n.toString(36).substring(2, 10)).join("_")}`;
+
+		// Set role and tabindex for accessibility
+		popup.setAttribute("role", "tooltip");
+		popup.setAttribute("tabindex", "-1");
+		popup.setAttribute("aria-hidden", "true");
+		popup.style.display = "none";
+
+		expressiveCodeBlock.appendChild(popup);
+	}
+
+	return popup;
+}
+
+// Returns an option set by the code block of a hover with a `data-twoslash-*` attribute
+function getOption(hover, name) {
+	const attribute = `data-twoslash-${name}`;
+	return hover.closest(`[${attribute}]`)?.getAttribute(attribute) ?? undefined;
+}
 
-	if (hoverAnnotation?.parentNode) {
-		hoverAnnotation.parentNode.removeChild(hoverAnnotation);
+function getNumberOption(hover, name, fallback) {
+	const value = Number(getOption(hover, name));
+	return Number.isFinite(value) ? value : fallback;
+}
+
+function getBooleanOption(hover, name, fallback) {
+	const value = getOption(hover, name);
+	return value === undefined ? fallback : value !== "false";
+}
+
+// The hover whose popup is shown, its popup element, and whether it was pinned by a click
+let activeHover;
+let activePopup;
+let isPinned = false;
+let showTimeout;
+let hideTimeout;
+let stopPositioning;
+
+// Positions the popup of a hover, and keeps it positioned while its containers scroll or resize
+function startPositioning(hover, popup) {
+	const placement = getOption(hover, "placement") ?? "bottom-start";
+	const padding = getNumberOption(hover, "padding", 8);
+
+	let arrow;
+	if (getBooleanOption(hover, "arrow", true)) {
+		arrow = document.createElement("div");
+		arrow.className = "twoslash-popup-arrow";
+		popup.append(arrow);
 	}
 
-	// Helper function to update tooltip position
-	function updatePosition() {
-		// Ensure `hoverAnnotation` remains attached to the expressiveCodeBlock for each tooltip
-		expressiveCodeBlock.appendChild(hoverAnnotation);
-
-		new Promise((resolve) =>
-			requestAnimationFrame(() => {
-				requestAnimationFrame(resolve);
-			}),
-		)
-			.then(() =>
-				FloatingUIDOM.computePosition(ToolTip, hoverAnnotation, {
-					placement: isMobileScreen ? "bottom" : "bottom-start",
-					middleware: [
-						FloatingUIDOM.size({
-							apply({ availableWidth }) {
-								Object.assign(hoverAnnotation.style, {
-									maxWidth: `${Math.max(300, availableWidth)}px`,
-									maxHeight: "100%",
-								});
-							},
-						}),
-					],
-				}),
-			)
-			.then(({ x, y }) => {
-				Object.assign(hoverAnnotation.style, {
-					display: "block",
-					left: `${isMobileScreen ? 20 : x}px`,
+	const middleware = [
+		FloatingUIDOM.offset(getNumberOption(hover, "offset", 8)),
+		getBooleanOption(hover, "flip", true) && FloatingUIDOM.flip({ padding }),
+		getBooleanOption(hover, "shift", true) && FloatingUIDOM.shift({ padding }),
+		FloatingUIDOM.size({
+			padding,
+			apply({ availableWidth }) {
+				Object.assign(popup.style, {
+					maxWidth: `${Math.max(300, availableWidth)}px`,
+					maxHeight: "100%",
+				});
+			},
+		}),
+		arrow && FloatingUIDOM.arrow({ element: arrow, padding: 4 }),
+		// Hide the popup while its hover is scrolled out of view
+		FloatingUIDOM.hide(),
+	].filter(Boolean);
+
+	// Measure the popup without showing it at its previous position
+	Object.assign(popup.style, { display: "block", visibility: "hidden" });
+
+	return FloatingUIDOM.autoUpdate(hover, popup, () =>
+		FloatingUIDOM.computePosition(hover, popup, { placement, middleware }).then(
+			({ x, y, placement, middlewareData }) => {
+				// Skip if the popup was hidden or opened for another hover in the meantime
+				if (activeHover !== hover) return;
+
+				popup.setAttribute("data-placement", placement.split("-")[0]);
+				Object.assign(popup.style, {
+					left: `${x}px`,
 					top: `${y}px`,
+					visibility: middlewareData.hide?.referenceHidden
+						? "hidden"
+						: "visible",
 				});
-			});
-	}
 
-	let isMouseOverTooltip = false;
-	let hideTimeout;
-	const TimeoutDelay = 100; // ms
-
-	// Show tooltip
-	function showTooltip() {
-		clearTimeout(hideTimeout);
-		updatePosition();
-		hoverAnnotation.setAttribute("aria-hidden", "false");
-		ToolTip.querySelector(".twoslash-hover span")?.setAttribute(
-			"aria-describedby",
-			randomId,
-		);
-		hoverAnnotation.setAttribute("id", randomId);
+				if (arrow && middlewareData.arrow) {
+					const { x: arrowX, y: arrowY } = middlewareData.arrow;
+					Object.assign(arrow.style, {
+						left: arrowX != null ? `${arrowX}px` : "",
+						top: arrowY != null ? `${arrowY}px` : "",
+					});
+				}
+			},
+		),
+	);
+}
+
+// Show the popup of a hover
+function showTooltip(hover) {
+	clearTimeout(showTimeout);
+	clearTimeout(hideTimeout);
+	if (activeHover === hover) return;
+
+	const contents = getPopupContents(hover);
+	const expressiveCodeBlock = hover.closest(".expressive-code");
+	if (!contents || !expressiveCodeBlock) return;
+
+	hideTooltip();
+
+	const popup = getSharedPopup(expressiveCodeBlock);
+	popup.replaceChildren(
+		...Array.from(contents.childNodes, (node) => node.cloneNode(true)),
+	);
+
+	activeHover = hover;
+	activePopup = popup;
+
+	stopPositioning = startPositioning(hover, popup);
+	popup.setAttribute("aria-hidden", "false");
+	hover.setAttribute("aria-describedby", popup.id);
+}
+
+// Hide the popup that is shown
+function hideTooltip() {
+	clearTimeout(showTimeout);
+	clearTimeout(hideTimeout);
+	if (!activeHover) return;
+
+	stopPositioning?.();
+	stopPositioning = undefined;
+
+	activeHover.removeAttribute("aria-describedby");
+	activePopup.setAttribute("aria-hidden", "true");
+	activePopup.removeAttribute("data-pinned");
+	activePopup.querySelector(":scope > .twoslash-popup-close")?.remove();
+	activePopup.style.display = "none"; // Hide instead of removing from DOM
+
+	activeHover = undefined;
+	activePopup = undefined;
+	isPinned = false;
+}
+
+// Show the popup of a hover after the open delay of its code block
+function scheduleShow(hover) {
+	clearTimeout(showTimeout);
+	clearTimeout(hideTimeout);
+
+	const delay = getNumberOption(hover, "open-delay", DefaultOpenDelay);
+	if (delay > 0) showTimeout = setTimeout(() => showTooltip(hover), delay);
+	else showTooltip(hover);
+}
+
+// Hide the popup after the close delay, so the pointer can move between the hover and its popup
+function scheduleHide() {
+	clearTimeout(showTimeout);
+	clearTimeout(hideTimeout);
+	if (!activeHover || isPinned) return;
+
+	hideTimeout = setTimeout(
+		hideTooltip,
+		getNumberOption(activeHover, "close-delay", DefaultCloseDelay),
+	);
+}
+
+// Keep the popup of a hover open until it is closed with its close button, Escape or a click elsewhere
+function pinTooltip(hover) {
+	showTooltip(hover);
+	if (activeHover !== hover || isPinned) return;
+
+	isPinned = true;
+	activePopup.setAttribute("data-pinned", "");
+
+	const closeButton = document.createElement("button");
+	closeButton.type = "button";
+	closeButton.className = "twoslash-popup-close";
+	closeButton.setAttribute(
+		"aria-label",
+		getOption(hover, "close-label") ?? "Close",
+	);
+	closeButton.textContent = "×";
+	activePopup.prepend(closeButton);
+}
+
+// Hide the popup, and move the focus back to its hover if it was inside the popup
+function closeTooltip() {
+	// Move the focus first, as focusing the hover of a hidden popup opens it again
+	if (activePopup?.contains(activeHover.getRootNode().activeElement)) {
+		activeHover.focus();
 	}
 
-	// Hide tooltip
-	function hideTooltip() {
-		hoverAnnotation.setAttribute("aria-hidden", "true");
-		ToolTip.querySelector(".twoslash-hover span")?.removeAttribute(
-			"aria-describedby",
-		);
-		hoverAnnotation.removeAttribute("id");
-		hoverAnnotation.style.display = "none"; // Hide instead of removing from DOM
+	hideTooltip();
+}
+
+// Moves the focus to another hover of the same code block
+function focusSibling(hover, key) {
+	const hovers = Array.from(
+		hover.closest(".expressive-code")?.querySelectorAll(".twoslash-hover") ??
+			[],
+	);
+	const index = hovers.indexOf(hover);
+
+	const next = {
+		ArrowRight: hovers[index + 1],
+		ArrowDown: hovers[index + 1],
+		ArrowLeft: hovers[index - 1],
+		ArrowUp: hovers[index - 1],
+		Home: hovers[0],
+		End: hovers[hovers.length - 1],
+	}[key];
+	if (!next || next === hover) return false;
+
+	// Only one hover of a code block is in the tab order
+	hover.setAttribute("tabindex", "-1");
+	next.setAttribute("tabindex", "0");
+	next.focus();
+
+	return true;
+}
+
+// Copies the type of a popup or a link to it, and briefly shows that it was copied
+function runAction(button) {
+	let text = button.getAttribute("data-copy");
+
+	if (button.getAttribute("data-twoslash-action") === "copy-link") {
+		// Shared popups link to their hover, static popups to themselves
+		const anchor = activePopup?.contains(button)
+			? activeHover.id
+			: button.closest(".twoslash-static-container")?.id;
+		if (!anchor) return;
+
+		text = new URL(`#${anchor}`, window.location.href).href;
 	}
 
-	// Event listeners for both mouse and keyboard accessibility
-	ToolTip.addEventListener("mouseenter", showTooltip);
-	ToolTip.addEventListener("mouseleave", () => {
-		hideTimeout = setTimeout(() => {
-			if (!isMouseOverTooltip) hideTooltip();
-		}, TimeoutDelay);
-	});
+	navigator.clipboard?.writeText(text).then(() => {
+		button.dataset.label ??= button.textContent;
+		button.textContent = button.getAttribute("data-copied");
 
-	hoverAnnotation.addEventListener("mouseenter", () => {
-		clearTimeout(hideTimeout);
-		isMouseOverTooltip = true;
+		clearTimeout(button.copiedTimeout);
+		button.copiedTimeout = setTimeout(() => {
+			button.textContent = button.dataset.label;
+		}, 1500);
 	});
+}
 
-	hoverAnnotation.addEventListener("mouseleave", () => {
-		isMouseOverTooltip = false;
-		hideTimeout = setTimeout(() => {
-			if (!ToolTip.matches(":hover")) hideTooltip();
-		}, TimeoutDelay);
-	});
+// Pins the popup of the hover the URL of the page points to
+function openFromHash(root) {
+	const id = decodeURIComponent(window.location.hash.slice(1));
+	if (!id) return;
 
-	ToolTip.addEventListener("focus", showTooltip);
-	ToolTip.addEventListener("blur", hideTooltip);
+	const target = root.getElementById
+		? root.getElementById(id)
+		: root.querySelector(`[id="${CSS.escape(id)}"]`);
 
-	// Initial hide for tooltip
-	hideTooltip();
+	if (target?.classList.contains("twoslash-hover")) pinTooltip(target);
 }
 
-const isMobileScreen = window.matchMedia("(max-width: 500px)").matches;
+// Returns the hover or the shown popup the target of an event is part of, including targets in shadow roots
+function findTarget(event) {
+	const target = event.composedPath()[0];
+	if (!(target instanceof Element)) return undefined;
 
-function initTwoslashPopups(container) {
-	// biome-ignore lint/complexity/noForEach: <explanation>
-	container.querySelectorAll?.(".twoslash-hover").forEach((el) => {
-		setupTooltip(el, isMobileScreen);
-	});
+	const hover = target.closest(".twoslash-hover");
+	if (hover) return hover;
+
+	if (activePopup?.contains(target)) return activePopup;
 }
 
-initTwoslashPopups(document);
+function onMouseOver(event) {
+	const target = findTarget(event);
+	if (!target || isPinned) return;
 
-const newTwoslashPopupObserver = new MutationObserver((mutations) =>
-	// biome-ignore lint/complexity/noForEach: <explanation>
-	mutations.forEach((mutation) =>
-		// biome-ignore lint/complexity/noForEach: <explanation>
-		mutation.addedNodes.forEach((node) => {
-			initTwoslashPopups(node);
-		}),
-	),
-);
+	if (target === activePopup) clearTimeout(hideTimeout);
+	else if (target !== activeHover) scheduleShow(target);
+	else clearTimeout(hideTimeout);
+}
 
-newTwoslashPopupObserver.observe(document.body, {
-	childList: true,
-	subtree: true,
-});
+function onMouseOut(event) {
+	const target = findTarget(event);
+
+	// Ignore the pointer moving between the elements of the same hover or popup
+	if (!target || target.contains(event.relatedTarget)) return;
+
+	scheduleHide();
+}
+
+function onFocusIn(event) {
+	const target = findTarget(event);
+	if (target && target !== activePopup && !isPinned) showTooltip(target);
+}
+
+function onFocusOut(event) {
+	const target = findTarget(event);
+	if (!target || isPinned) return;
+	if (target !== activeHover && target !== activePopup) return;
+
+	// Keep the popup open while the focus moves between the hover and the popup
+	const next = event.relatedTarget;
+	if (!activePopup.contains(next) && !activeHover.contains(next)) hideTooltip();
+}
+
+function onClick(event) {
+	const action = event.composedPath()[0].closest?.("[data-twoslash-action]");
+	if (action) {
+		runAction(action);
+		return;
+	}
+
+	const target = findTarget(event);
+
+	if (target && target === activePopup) {
+		if (event.composedPath()[0].closest(".twoslash-popup-close")) {
+			closeTooltip();
+		}
+		return;
+	}
+
+	if (target) {
+		if (target === activeHover && isPinned) hideTooltip();
+		else pinTooltip(target);
+		return;
+	}
+
+	// Close a pinned popup when clicking elsewhere
+	if (isPinned) hideTooltip();
+}
+
+function onKeyDown(event) {
+	if (event.key === "Escape" && activeHover) {
+		closeTooltip();
+		return;
+	}
+
+	const hover = findTarget(event);
+	if (!hover || hover === activePopup) return;
+
+	if (event.key === "Enter" || event.key === " ") {
+		event.preventDefault();
+		if (hover === activeHover && isPinned) hideTooltip();
+		else pinTooltip(hover);
+	} else if (focusSibling(hover, event.key)) {
+		event.preventDefault();
+	}
+}
+
+// The events that were handled, as they reach the listeners of every initialized root they pass
+const handledEvents = new WeakSet();
 
-document.addEventListener("astro:page-load", () => {
-	initTwoslashPopups(document.body);
+function handleOnce(listener) {
+	return (event) => {
+		if (handledEvents.has(event)) return;
+		handledEvents.add(event);
+		listener(event);
+	};
+}
+
+const listeners = {
+	mouseover: handleOnce(onMouseOver),
+	mouseout: handleOnce(onMouseOut),
+	focusin: handleOnce(onFocusIn),
+	focusout: handleOnce(onFocusOut),
+	click: handleOnce(onClick),
+	keydown: handleOnce(onKeyDown),
+};
+
+// The documents, shadow roots and elements whose hovers are handled
+const initializedRoots = new Set();
+
+// Handles the hovers in a root, including hovers that are added to it later
+function init(root = document) {
+	if (initializedRoots.has(root)) return;
+	initializedRoots.add(root);
+
+	for (const [type, listener] of Object.entries(listeners)) {
+		root.addEventListener(type, listener);
+	}
+
+	openFromHash(root);
+}
+
+// Stops handling the hovers in a root, and removes its popups
+function destroy(root = document) {
+	if (!initializedRoots.delete(root)) return;
+
+	for (const [type, listener] of Object.entries(listeners)) {
+		root.removeEventListener(type, listener);
+	}
+
+	if (activeHover && root.contains(activeHover)) hideTooltip();
+
+	for (const popup of root.querySelectorAll(".twoslash-popup-shared")) {
+		popup.remove();
+	}
+	popupTemplates.clear();
+}
+
+// Hides the shown popup, forgets the islands and opens the popup the URL points to, e.g. after the content of the page was replaced
+function refresh() {
+	hideTooltip();
+	popupTemplates.clear();
+
+	for (const root of initializedRoots) openFromHash(root);
+}
+
+let routerEvents = [];
+
+// Refreshes the popups whenever one of the events is dispatched on the window or document
+function setRouterEvents(events) {
+	for (const type of routerEvents) {
+		window.removeEventListener(type, refresh);
+		document.removeEventListener(type, refresh);
+	}
+
+	routerEvents = [...events];
+
+	for (const type of routerEvents) {
+		window.addEventListener(type, refresh);
+		document.addEventListener(type, refresh);
+	}
+}
+
+window.addEventListener("hashchange", () => {
+	for (const root of initializedRoots) openFromHash(root);
 });
+
+// Options can be set before this script runs, e.g. `window.twoslash = { autoInit: false }`
+const options = window.twoslash ?? {};
+
+window.twoslash = { init, destroy, refresh, setRouterEvents };
+
+setRouterEvents(options.routerEvents ?? ["astro:page-load"]);
+
+if (options.autoInit !== false) init(document);
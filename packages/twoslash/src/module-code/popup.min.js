@@ -5,4 +5,4 @@
 	To change it, modify the source file and then re-run the build script.
 */
 
-export default 'function setupTooltip(e,o){let s=e.querySelector(".twoslash-popup-container"),t=s.closest(".expressive-code"),i="twoslash_popup_"+[Math.random(),Date.now()].map(e=>e.toString(36).substring(2,10)).join("_");s.setAttribute("role","tooltip"),s.setAttribute("tabindex","-1"),s?.parentNode&&s.parentNode.removeChild(s);let a=!1,r;function n(){clearTimeout(r),t.appendChild(s),new Promise(e=>requestAnimationFrame(()=>{requestAnimationFrame(e)})).then(()=>FloatingUIDOM.computePosition(e,s,{placement:o?"bottom":"bottom-start",middleware:[FloatingUIDOM.size({apply({availableWidth:e}){Object.assign(s.style,{maxWidth:Math.max(300,e)+"px",maxHeight:"100%"})}})]})).then(({x:e,y:t})=>{Object.assign(s.style,{display:"block",left:`${o?20:e}px`,top:t+"px"})}),s.setAttribute("aria-hidden","false"),e.querySelector(".twoslash-hover span")?.setAttribute("aria-describedby",i),s.setAttribute("id",i)}function d(){s.setAttribute("aria-hidden","true"),e.querySelector(".twoslash-hover span")?.removeAttribute("aria-describedby"),s.removeAttribute("id"),s.style.display="none"}e.addEventListener("mouseenter",n),e.addEventListener("mouseleave",()=>{r=setTimeout(()=>{a||d()},100)}),s.addEventListener("mouseenter",()=>{clearTimeout(r),a=!0}),s.addEventListener("mouseleave",()=>{a=!1,r=setTimeout(()=>{e.matches(":hover")||d()},100)}),e.addEventListener("focus",n),e.addEventListener("blur",d),d()}let isMobileScreen=window.matchMedia("(max-width: 500px)").matches;function initTwoslashPopups(e){e.querySelectorAll?.(".twoslash-hover").forEach(e=>{setupTooltip(e,isMobileScreen)})}initTwoslashPopups(document);let newTwoslashPopupObserver=new MutationObserver(e=>e.forEach(e=>e.addedNodes.forEach(e=>{initTwoslashPopups(e)})));newTwoslashPopupObserver.observe(document.body,{childList:!0,subtree:!0}),document.addEventListener("astro:page-load",()=>{initTwoslashPopups(document.body)});';
\ No newline at end of file
+export default 'let DefaultOpenDelay=0,DefaultCloseDelay=100,popupTemplates=new Map;function findPopupTemplate(e,t){if(!popupTemplates.has(e))for(var o of t.querySelectorAll("template.twoslash-popups")){o=o.content.querySelector(`[data-twoslash-popup="${e}"]`);if(o){popupTemplates.set(e,o);break}}return popupTemplates.get(e)}function getPopupContents(e){var t=e.querySelector(":scope > .twoslash-popup-container");return t||((t=e.getAttribute("data-twoslash-popup"))?findPopupTemplate(t,e.getRootNode()):void 0)}function getSharedPopup(e){let t=e.querySelector(":scope > .twoslash-popup-shared");return t||((t=document.createElement("div")).className="twoslash-popup-container twoslash-popup-shared not-content",t.id="twoslash_popup_"+[Math.random(),Date.now()].map(e=>e.toString(36).substring(2,10)).join("_"),t.setAttribute("role","tooltip"),t.setAttribute("tabindex","-1"),t.setAttribute("aria-hidden","true"),t.style.display="none",e.appendChild(t)),t}function getOption(e,t){t="data-twoslash-"+t;return e.closest(`[${t}]`)?.getAttribute(t)??void 0}function getNumberOption(e,t,o){e=Number(getOption(e,t));return Number.isFinite(e)?e:o}function getBooleanOption(e,t,o){e=getOption(e,t);return void 0===e?o:"false"!==e}let activeHover,activePopup,isPinned=!1,showTimeout,hideTimeout,stopPositioning;function startPositioning(n,a){let e=getOption(n,"placement")??"bottom-start";var t=getNumberOption(n,"padding",8);let s,o=(getBooleanOption(n,"arrow",!0)&&((s=document.createElement("div")).className="twoslash-popup-arrow",a.append(s)),[FloatingUIDOM.offset(getNumberOption(n,"offset",8)),getBooleanOption(n,"flip",!0)&&FloatingUIDOM.flip({padding:t}),getBooleanOption(n,"shift",!0)&&FloatingUIDOM.shift({padding:t}),FloatingUIDOM.size({padding:t,apply({availableWidth:e}){Object.assign(a.style,{maxWidth:Math.max(300,e)+"px",maxHeight:"100%"})}}),s&&FloatingUIDOM.arrow({element:s,padding:4}),FloatingUIDOM.hide()].filter(Boolean));return Object.assign(a.style,{display:"block",visibility:"hidden"}),FloatingUIDOM.autoUpdate(n,a,()=>FloatingUIDOM.computePosition(n,a,{placement:e,middleware:o}).then(({x:e,y:t,placement:o,middlewareData:i})=>{activeHover===n&&(a.setAttribute("data-placement",o.split("-")[0]),Object.assign(a.style,{left:e+"px",top:t+"px",visibility:i.hide?.referenceHidden?"hidden":"visible"}),s)&&i.arrow&&({x:o,y:e}=i.arrow,Object.assign(s.style,{left:null!=o?o+"px":"",top:null!=e?e+"px":""}))}))}function showTooltip(e){var t,o;clearTimeout(showTimeout),clearTimeout(hideTimeout),activeHover!==e&&(t=getPopupContents(e),o=e.closest(".expressive-code"),t)&&o&&(hideTooltip(),(o=getSharedPopup(o)).replaceChildren(...Array.from(t.childNodes,e=>e.cloneNode(!0))),activeHover=e,activePopup=o,stopPositioning=startPositioning(e,o),o.setAttribute("aria-hidden","false"),e.setAttribute("aria-describedby",o.id))}function hideTooltip(){clearTimeout(showTimeout),clearTimeout(hideTimeout),activeHover&&(stopPositioning?.(),stopPositioning=void 0,activeHover.removeAttribute("aria-describedby"),activePopup.setAttribute("aria-hidden","true"),activePopup.removeAttribute("data-pinned"),activePopup.querySelector(":scope > .twoslash-popup-close")?.remove(),activePopup.style.display="none",activeHover=void 0,activePopup=void 0,isPinned=!1)}function scheduleShow(e){clearTimeout(showTimeout),clearTimeout(hideTimeout);var t=getNumberOption(e,"open-delay",DefaultOpenDelay);0<t?showTimeout=setTimeout(()=>showTooltip(e),t):showTooltip(e)}function scheduleHide(){clearTimeout(showTimeout),clearTimeout(hideTimeout),activeHover&&!isPinned&&(hideTimeout=setTimeout(hideTooltip,getNumberOption(activeHover,"close-delay",DefaultCloseDelay)))}function pinTooltip(e){var t;showTooltip(e),activeHover!==e||isPinned||(isPinned=!0,activePopup.setAttribute("data-pinned",""),(t=document.createElement("button")).type="button",t.className="twoslash-popup-close",t.setAttribute("aria-label",getOption(e,"close-label")??"Close"),t.textContent="×",activePopup.prepend(t))}function closeTooltip(){activePopup?.contains(activeHover.getRootNode().activeElement)&&activeHover.focus(),hideTooltip()}function focusSibling(e,t){var o=Array.from(e.closest(".expressive-code")?.querySelectorAll(".twoslash-hover")??[]),i=o.indexOf(e),i={ArrowRight:o[i+1],ArrowDown:o[i+1],ArrowLeft:o[i-1],ArrowUp:o[i-1],Home:o[0],End:o[o.length-1]}[t];return!(!i||i===e||(e.setAttribute("tabindex","-1"),i.setAttribute("tabindex","0"),i.focus(),0))}function runAction(e){let t=e.getAttribute("data-copy");if("copy-link"===e.getAttribute("data-twoslash-action")){var o=activePopup?.contains(e)?activeHover.id:e.closest(".twoslash-static-container")?.id;if(!o)return;t=new URL("#"+o,window.location.href).href}navigator.clipboard?.writeText(t).then(()=>{e.dataset.label??=e.textContent,e.textContent=e.getAttribute("data-copied"),clearTimeout(e.copiedTimeout),e.copiedTimeout=setTimeout(()=>{e.textContent=e.dataset.label},1500)})}function openFromHash(e){var t=decodeURIComponent(window.location.hash.slice(1));t&&(e=e.getElementById?e.getElementById(t):e.querySelector(`[id="${CSS.escape(t)}"]`))?.classList.contains("twoslash-hover")&&pinTooltip(e)}function findTarget(e){e=e.composedPath()[0];if(e instanceof Element)return e.closest(".twoslash-hover")||(activePopup?.contains(e)?activePopup:void 0)}function onMouseOver(e){e=findTarget(e);e&&!isPinned&&(e!==activePopup&&e!==activeHover?scheduleShow(e):clearTimeout(hideTimeout))}function onMouseOut(e){var t=findTarget(e);t&&!t.contains(e.relatedTarget)&&scheduleHide()}function onFocusIn(e){e=findTarget(e);e&&e!==activePopup&&!isPinned&&showTooltip(e)}function onFocusOut(e){var t=findTarget(e);!t||isPinned||t!==activeHover&&t!==activePopup||(t=e.relatedTarget,activePopup.contains(t))||activeHover.contains(t)||hideTooltip()}function onClick(e){var t=e.composedPath()[0].closest?.("[data-twoslash-action]");t?runAction(t):(t=findTarget(e))&&t===activePopup?e.composedPath()[0].closest(".twoslash-popup-close")&&closeTooltip():t?t===activeHover&&isPinned?hideTooltip():pinTooltip(t):isPinned&&hideTooltip()}function onKeyDown(e){var t;"Escape"===e.key&&activeHover?closeTooltip():(t=findTarget(e))&&t!==activePopup&&("Enter"===e.key||" "===e.key?(e.preventDefault(),t===activeHover&&isPinned?hideTooltip():pinTooltip(t)):focusSibling(t,e.key)&&e.preventDefault())}let handledEvents=new WeakSet;function handleOnce(t){return e=>{handledEvents.has(e)||(handledEvents.add(e),t(e))}}let listeners={mouseover:handleOnce(onMouseOver),mouseout:handleOnce(onMouseOut),focusin:handleOnce(onFocusIn),focusout:handleOnce(onFocusOut),click:handleOnce(onClick),keydown:handleOnce(onKeyDown)},initializedRoots=new Set;function init(e=document){if(!initializedRoots.has(e)){initializedRoots.add(e);for(var[t,o]of Object.entries(listeners))e.addEventListener(t,o);openFromHash(e)}}function destroy(e=document){if(initializedRoots.delete(e)){for(var[t,o]of Object.entries(listeners))e.removeEventListener(t,o);activeHover&&e.contains(activeHover)&&hideTooltip();for(var i of e.querySelectorAll(".twoslash-popup-shared"))i.remove();popupTemplates.clear()}}function refresh(){hideTooltip(),popupTemplates.clear();for(var e of initializedRoots)openFromHash(e)}let routerEvents=[];function setRouterEvents(e){for(var t of routerEvents)window.removeEventListener(t,refresh),document.removeEventListener(t,refresh);for(var o of routerEvents=[...e])window.addEventListener(o,refresh),document.addEventListener(o,refresh)}window.addEventListener("hashchange",()=>{for(var e of initializedRoots)openFromHash(e)});let options=window.twoslash??{};window.twoslash={init:init,destroy:destroy,refresh:refresh,setRouterEvents:setRouterEvents},setRouterEvents(options.routerEvents??["astro:page-load"]),!1!==options.autoInit&&init(document);';
\ No newline at end of file
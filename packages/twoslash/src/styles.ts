@@ -5,7 +5,29 @@ import {
 	lighten,
 	toHexColor,
 } from "@expressive-code/core";
-import type { TwoSlashStyleSettings } from "./types";
+import {
+	getCustomTagColorClass,
+	getCustomTagColorSetting,
+} from "./helpers/string-gen";
+import type { TwoSlashStyleSettings, TwoslashCustomTagRenderer } from "./types";
+
+/**
+ * Returns a resolver for a completion icon color, based on the theme's `symbolIcon.*Foreground` color.
+ *
+ * @param symbol - The symbol name used in the theme color, e.g. `class` for `symbolIcon.classForeground`.
+ * @param fallback - The VS Code default colors for dark and light themes. Defaults to the editor foreground color.
+ * @returns A style resolver function.
+ */
+function symbolIconColor(
+	symbol: string,
+	fallback?: [dark: string, light: string],
+): StyleResolverFn {
+	return ({ theme }) =>
+		theme.colors[`symbolIcon.${symbol}Foreground`] ||
+		fallback?.[theme.type === "dark" ? 0 : 1] ||
+		theme.colors["editor.foreground"] ||
+		theme.fg;
+}
 
 /**
  * Represents the style settings for the TwoSlash plugin.
@@ -78,14 +100,38 @@ export const twoSlashStyleSettings = new PluginStyleSettings({
 				"#888",
 
 			// Completion icon colors
-			completionIconClass: "#EE9D28",
-			completionIconConstructor: "#b180d7",
-			completionIconFunction: "#b180d7",
-			completionIconInterface: "#75beff",
-			completionIconModule: "#cccccc",
-			completionIconMethod: "#b180d7",
-			completionIconProperty: "#cccccc",
-			completionIconString: "#cccccc",
+			completionIconClass: symbolIconColor("class", ["#EE9D28", "#D67E00"]),
+			completionIconConstructor: symbolIconColor("constructor", [
+				"#B180D7",
+				"#652D90",
+			]),
+			completionIconFunction: symbolIconColor("function", [
+				"#B180D7",
+				"#652D90",
+			]),
+			completionIconInterface: symbolIconColor("interface", [
+				"#75BEFF",
+				"#007ACC",
+			]),
+			completionIconModule: symbolIconColor("module"),
+			completionIconMethod: symbolIconColor("method", ["#B180D7", "#652D90"]),
+			completionIconProperty: symbolIconColor("property"),
+			completionIconString: symbolIconColor("string"),
+			completionIconVariable: symbolIconColor("variable", [
+				"#75BEFF",
+				"#007ACC",
+			]),
+			completionIconConstant: symbolIconColor("constant"),
+			completionIconEnum: symbolIconColor("enumerator", ["#EE9D28", "#D67E00"]),
+			completionIconEnumMember: symbolIconColor("enumeratorMember", [
+				"#75BEFF",
+				"#007ACC",
+			]),
+			completionIconKeyword: symbolIconColor("keyword"),
+			completionIconTypeParameter: symbolIconColor("typeParameter"),
+			completionIconText: symbolIconColor("text"),
+			completionIconFile: symbolIconColor("file"),
+			completionIconFolder: symbolIconColor("folder"),
 		},
 	},
 	cssVarExclusions: [
@@ -98,6 +144,32 @@ export const twoSlashStyleSettings = new PluginStyleSettings({
 	],
 });
 
+/**
+ * Returns the style settings for the TwoSlash plugin, including the colors of custom tag renderers.
+ *
+ * @param customTagRenderers - The custom tag renderers provided by the user.
+ * @returns The style settings to use for the plugin.
+ */
+export function getTwoSlashStyleSettings(
+	customTagRenderers: Record<string, TwoslashCustomTagRenderer>,
+): PluginStyleSettings {
+	const customTagColors = Object.entries(customTagRenderers)
+		.filter(([, renderer]) => renderer.color !== undefined)
+		.map(([tag, renderer]) => [getCustomTagColorSetting(tag), renderer.color]);
+
+	if (customTagColors.length === 0) return twoSlashStyleSettings;
+
+	return new PluginStyleSettings({
+		defaultValues: {
+			twoSlash: {
+				...twoSlashStyleSettings.defaultValues.twoSlash,
+				...Object.fromEntries(customTagColors),
+			},
+		},
+		cssVarExclusions: twoSlashStyleSettings.cssVarExclusions,
+	});
+}
+
 /**
  * Generates the base styles for the TwoSlash component.
  *
@@ -108,9 +180,13 @@ export const twoSlashStyleSettings = new PluginStyleSettings({
  *
  * @param {ResolverContext} context - The context object containing the `cssVar` function
  * used to resolve CSS variable values.
+ * @param customTagRenderers - The custom tag renderers provided by the user.
  * @returns {string} The generated CSS styles as a string.
  */
-export function getTwoSlashBaseStyles({ cssVar }: ResolverContext): string {
+export function getTwoSlashBaseStyles(
+	{ cssVar }: ResolverContext,
+	customTagRenderers: Record<string, TwoslashCustomTagRenderer> = {},
+): string {
 	const baseCSS = `
     :root {
         .main-pane { 
@@ -125,23 +201,6 @@ export function getTwoSlashBaseStyles({ cssVar }: ResolverContext): string {
 
 	const popupDocsCSS = `
 
-        @media (min-width: 500px) {
-            .twoslash-popup-container:before {
-                content: "";
-                position: absolute;
-                top: -5px;
-                left: 3px;
-                border-top: 1px solid ${cssVar("twoSlash.borderColor")};
-                border-right: 1px solid ${cssVar("twoSlash.borderColor")};
-                background: ${cssVar("twoSlash.background")};
-                transform: rotate(-45deg);
-                width: 8px;
-                height: 8px;
-                pointer-events: none;
-                display: inline-block;
-            }
-        }
-
         .twoslash-popup-container {
             position: absolute;
             z-index: 999 !important;
@@ -153,10 +212,139 @@ export function getTwoSlashBaseStyles({ cssVar }: ResolverContext): string {
             word-break: normal !important;
             overflow-wrap: normal !important;
             width: max-content !important;
-            margin-top: 0.5rem;
             color: ${cssVar("twoSlash.textColor")};
         }
 
+        .twoslash-popup-arrow {
+            position: absolute;
+            width: 8px;
+            height: 8px;
+            border: 0 solid ${cssVar("twoSlash.borderColor")};
+            background: ${cssVar("twoSlash.background")};
+            transform: rotate(45deg);
+            pointer-events: none;
+        }
+
+        .twoslash-popup-container[data-placement="bottom"] > .twoslash-popup-arrow {
+            top: -5px;
+            border-top-width: 1px;
+            border-left-width: 1px;
+        }
+
+        .twoslash-popup-container[data-placement="top"] > .twoslash-popup-arrow {
+            bottom: -5px;
+            border-bottom-width: 1px;
+            border-right-width: 1px;
+        }
+
+        .twoslash-popup-container[data-placement="right"] > .twoslash-popup-arrow {
+            left: -5px;
+            border-bottom-width: 1px;
+            border-left-width: 1px;
+        }
+
+        .twoslash-popup-container[data-placement="left"] > .twoslash-popup-arrow {
+            right: -5px;
+            border-top-width: 1px;
+            border-right-width: 1px;
+        }
+
+        .twoslash-hover > .twoslash-popup-container {
+            display: none;
+        }
+
+        @media (scripting: none) {
+            [data-twoslash-fallback="focus"] .twoslash-hover:is(:hover, :focus-within) > .twoslash-popup-container {
+                display: block;
+                top: 100%;
+                left: 0;
+                margin-top: 4px;
+            }
+
+            .twoslash-popup-actions {
+                display: none;
+            }
+        }
+
+        @media (scripting: enabled) {
+            .twoslash-footnotes {
+                display: none;
+            }
+        }
+
+        .twoslash-footnotes {
+            padding: 0.5rem 1rem;
+            border-top: 1px solid ${cssVar("twoSlash.borderColor")};
+            background: ${cssVar("twoSlash.background")};
+            color: ${cssVar("twoSlash.textColor")};
+            font-size: ${cssVar("codeFontSize")};
+        }
+
+        .twoslash-footnotes ol {
+            margin: 0;
+            padding-left: 1.5rem;
+        }
+
+        .twoslash-footnotes li + li {
+            margin-top: 0.5rem;
+        }
+
+        .twoslash-footnote-type {
+            font-family: ${cssVar("codeFontFamily")};
+            white-space: pre-wrap;
+        }
+
+        .twoslash-popup-actions {
+            display: flex;
+            gap: 0.25rem;
+            padding: 2px 8px 4px;
+            border-top: 1px solid ${cssVar("twoSlash.borderColor")};
+            font-family: ${cssVar("uiFontFamily")};
+            font-size: 0.75rem;
+        }
+
+        .twoslash-popup-action {
+            padding: 0 6px;
+            border: 1px solid transparent;
+            border-radius: 3px;
+            background: transparent;
+            color: inherit;
+            font: inherit;
+            cursor: pointer;
+            opacity: 0.7;
+        }
+
+        .twoslash-popup-action:hover,
+        .twoslash-popup-action:focus-visible {
+            opacity: 1;
+            border-color: ${cssVar("twoSlash.borderColor")};
+        }
+
+        .twoslash-popup-close {
+            float: right;
+            margin: 2px 4px 0 8px;
+            padding: 0 4px;
+            border: none;
+            border-radius: 2px;
+            background: transparent;
+            color: inherit;
+            font-size: 1rem;
+            line-height: 1.25rem;
+            cursor: pointer;
+            opacity: 0.7;
+        }
+
+        .twoslash-popup-close:hover,
+        .twoslash-popup-close:focus-visible {
+            opacity: 1;
+        }
+
+        .twoslash-popup-close:focus-visible,
+        .twoslash .twoslash-hover:focus-visible {
+            outline: 1px solid ${cssVar("focusBorder")};
+            outline-offset: 1px;
+        }
+
         .twoslash-popup-container a:link {
             color: ${cssVar("twoSlash.linkColor")};
         }
@@ -354,6 +542,12 @@ export function getTwoSlashBaseStyles({ cssVar }: ResolverContext): string {
             font-weight: ${cssVar("codeFontWeight")};
         }
 
+        .twoslash-popup-docs a {
+            color: inherit;
+            text-decoration: underline;
+            text-underline-offset: 2px;
+        }
+
         .twoslash-popup-docs-tagline {
             display: flex;
             text-wrap-style: stable;
@@ -483,6 +677,29 @@ export function getTwoSlashBaseStyles({ cssVar }: ResolverContext): string {
             border-top: 1px solid ${cssVar("twoSlash.completionBoxBorder")};
         }
 
+        .twoslash-completion-item-selected {
+            background: ${cssVar("twoSlash.completionBoxHoverBackground")};
+        }
+
+        .twoslash-completion:has(.twoslash-completion-details) {
+            display: flex;
+            align-items: flex-start;
+            gap: 0.25rem;
+        }
+
+        .twoslash-completion-details {
+            display: block;
+            z-index: 10;
+            background: ${cssVar("twoSlash.background")};
+            border: 1px solid ${cssVar("twoSlash.borderColor")};
+            border-radius: 4px;
+            font-size: 90%;
+            white-space: nowrap !important;
+            word-break: normal !important;
+            overflow-wrap: normal !important;
+            width: max-content !important;
+        }
+
         .twoslash-completion-item-deprecated {
             text-decoration: line-through;
             opacity: 0.5;
@@ -508,37 +725,73 @@ export function getTwoSlashBaseStyles({ cssVar }: ResolverContext): string {
             flex: none;
         }
 
-        .twoslash-completion-icon.class {
+        .twoslash-completion-icon-class {
             color: ${cssVar("twoSlash.completionIconClass")};
         }
 
-        .twoslash-completion-icon.constructor {
+        .twoslash-completion-icon-constructor {
             color: ${cssVar("twoSlash.completionIconConstructor")};
         }
 
-        .twoslash-completion-icon.function {
+        .twoslash-completion-icon-function {
             color: ${cssVar("twoSlash.completionIconFunction")};
         }
 
-        .twoslash-completion-icon.interface {
+        .twoslash-completion-icon-interface {
             color: ${cssVar("twoSlash.completionIconInterface")};
         }
 
-        .twoslash-completion-icon.module {
+        .twoslash-completion-icon-module {
             color: ${cssVar("twoSlash.completionIconModule")};
         }
 
-        .twoslash-completion-icon.method {
+        .twoslash-completion-icon-method {
             color: ${cssVar("twoSlash.completionIconMethod")};
         }
 
-        .twoslash-completion-icon.property {
+        .twoslash-completion-icon-property {
             color: ${cssVar("twoSlash.completionIconProperty")};
         }
 
-        .twoslash-completion-icon.string {
+        .twoslash-completion-icon-string {
             color: ${cssVar("twoSlash.completionIconString")};
         }
+
+        .twoslash-completion-icon-variable {
+            color: ${cssVar("twoSlash.completionIconVariable")};
+        }
+
+        .twoslash-completion-icon-constant {
+            color: ${cssVar("twoSlash.completionIconConstant")};
+        }
+
+        .twoslash-completion-icon-enum {
+            color: ${cssVar("twoSlash.completionIconEnum")};
+        }
+
+        .twoslash-completion-icon-enumMember {
+            color: ${cssVar("twoSlash.completionIconEnumMember")};
+        }
+
+        .twoslash-completion-icon-keyword {
+            color: ${cssVar("twoSlash.completionIconKeyword")};
+        }
+
+        .twoslash-completion-icon-typeParameter {
+            color: ${cssVar("twoSlash.completionIconTypeParameter")};
+        }
+
+        .twoslash-completion-icon-text {
+            color: ${cssVar("twoSlash.completionIconText")};
+        }
+
+        .twoslash-completion-icon-file {
+            color: ${cssVar("twoSlash.completionIconFile")};
+        }
+
+        .twoslash-completion-icon-folder {
+            color: ${cssVar("twoSlash.completionIconFolder")};
+        }
     `;
 
 	const errorCSS = `
@@ -584,6 +837,185 @@ export function getTwoSlashBaseStyles({ cssVar }: ResolverContext): string {
 	    white-space: normal;
   	}
 
+        .twoslash-error-chain summary {
+            cursor: pointer;
+        }
+
+        .twoslash-error-chain-next {
+            padding-left: 1rem;
+        }
+
+        .twoslash-error-box-related {
+            margin: 0.2rem 0 0 0 !important;
+            padding: 0 !important;
+            list-style: none;
+            white-space: normal;
+        }
+
+        .twoslash-error-box-related li {
+            margin: 0 !important;
+        }
+
+        .twoslash-error-box-related-location {
+            color: inherit !important;
+            font-style: normal;
+        }
+
+        a.twoslash-error-box-related-location {
+            text-decoration: underline;
+            text-underline-offset: 2px;
+        }
+
+        .ec-line:target {
+            background: ${cssVar("twoSlash.highlightBackground")};
+            scroll-margin-block: 4rem;
+            animation: twoslash-line-flash 1.5s ease-out;
+        }
+
+        @keyframes twoslash-line-flash {
+            from {
+                background: ${cssVar("twoSlash.highlightBorderColor")};
+            }
+        }
+
+        @media (prefers-reduced-motion: reduce) {
+            .ec-line:target {
+                animation: none;
+            }
+        }
+
+        .twoslash-error-box-code {
+            color: inherit !important;
+            text-decoration: underline;
+            text-underline-offset: 2px;
+        }
+
+        .twoslash-error-box-explanation {
+            white-space: normal;
+            font-style: normal;
+        }
+
+        .twoslash-error-box-explanation summary {
+            cursor: pointer;
+            font-style: italic;
+            opacity: 0.8;
+        }
+
+        .twoslash-error-box-explanation p {
+            margin: 0.2rem 0;
+        }
+
+        .twoslash-error-box-explanation code {
+            font-family: ${cssVar("codeFontFamily")};
+        }
+
+        .twoslash-popup-container .twoslash-error-box {
+            max-width: 600px;
+            border: none;
+            border-radius: 0;
+            white-space: normal !important;
+        }
+
+        .twoslash-error-inline {
+            display: inline-block;
+            max-width: 60ch;
+            margin-left: 2ch;
+            padding: 0 0.4rem;
+            border-radius: 4px;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+            vertical-align: bottom;
+            font-style: italic;
+            font-size: 90%;
+        }
+
+        .twoslash-error-summary {
+            padding: 0.5rem 1rem;
+            border-top: 1px solid ${cssVar("twoSlash.borderColor")};
+            background: ${cssVar("twoSlash.background")};
+            color: ${cssVar("twoSlash.textColor")};
+            font-size: 90%;
+        }
+
+        .twoslash-error-summary summary {
+            cursor: pointer;
+        }
+
+        .twoslash-error-summary ul {
+            margin: 0.5rem 0 0;
+            padding: 0;
+            list-style: none;
+        }
+
+        .twoslash-error-summary li {
+            display: flex;
+            gap: 0.5rem;
+            align-items: baseline;
+            margin: 0.25rem 0 0;
+        }
+
+        .twoslash-error-summary-location {
+            font-family: ${cssVar("codeFontFamily")};
+            opacity: 0.7;
+        }
+
+        .twoslash-error-footer {
+            padding: 0.4rem 1rem;
+            border-top: 1px solid ${cssVar("twoSlash.borderColor")};
+            background: ${cssVar("twoSlash.background")};
+            color: ${cssVar("twoSlash.textColor")};
+            font-size: 85%;
+        }
+
+        .twoslash-error-footer-counts {
+            font-weight: 600;
+        }
+
+        .twoslash-error-footer-list {
+            margin: 0.25rem 0 0;
+            padding: 0;
+            list-style: none;
+        }
+
+        .twoslash-error-footer-list li {
+            margin: 0;
+        }
+
+        .twoslash-error-footer-link {
+            display: block;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+            color: inherit !important;
+            text-decoration: none;
+        }
+
+        .twoslash-error-footer-link:hover .twoslash-error-footer-message,
+        .twoslash-error-footer-link:focus-visible .twoslash-error-footer-message {
+            text-decoration: underline;
+            text-underline-offset: 2px;
+        }
+
+        .twoslash-error-footer-level {
+            padding: 0 0.3rem;
+            border-radius: 3px;
+        }
+
+        .twoslash-error-footer-location {
+            font-family: ${cssVar("codeFontFamily")};
+            opacity: 0.7;
+        }
+
+        .twoslash-processing-error .twoslash-error-box-content-title {
+            display: block;
+            font-weight: 600;
+        }
+
+        .twoslash-processing-error .twoslash-error-box-content-message {
+            white-space: pre-wrap;
+        }
+
         .twoslash-error-level-error {
             color: ${cssVar("twoSlash.errorColor")} !important;
             border-color: rgba(from ${cssVar("twoSlash.errorColor")} r g b / 0.25) !important;
@@ -666,6 +1098,20 @@ export function getTwoSlashBaseStyles({ cssVar }: ResolverContext): string {
         }
     `;
 
+	const customTagColorCSS = Object.entries(customTagRenderers)
+		.filter(([, renderer]) => renderer.color !== undefined)
+		.map(([tag]) => {
+			const color = cssVar(`twoSlash.${getCustomTagColorSetting(tag)}`);
+
+			return `
+        .${getCustomTagColorClass(tag)} {
+            color: ${color} !important;
+            border-color: rgba(from ${color} r g b / 0.25) !important;
+            background: rgba(from ${color} r g b / 0.1) !important;
+        }`;
+		})
+		.join("\n");
+
 	const highlightCSS = `
         .twoslash-highlighted {
             background-color: ${cssVar("twoSlash.highlightBackground")};
@@ -676,6 +1122,79 @@ export function getTwoSlashBaseStyles({ cssVar }: ResolverContext): string {
         }
     `;
 
+	const emitCSS = `
+        .twoslash-emit-tabs {
+            display: flex;
+            flex-wrap: wrap;
+        }
+
+        .twoslash-emit-radio {
+            position: absolute;
+            opacity: 0;
+            pointer-events: none;
+        }
+
+        .twoslash-emit-tab {
+            padding: 0.25rem 1rem;
+            font-family: ${cssVar("uiFontFamily")};
+            font-size: 0.85rem;
+            cursor: pointer;
+            opacity: 0.7;
+            border-bottom: 2px solid transparent;
+        }
+
+        .twoslash-emit-radio:checked + .twoslash-emit-tab {
+            opacity: 1;
+            border-bottom-color: currentColor;
+        }
+
+        .twoslash-emit-radio:focus-visible + .twoslash-emit-tab {
+            outline: 2px solid ${cssVar("focusBorder")};
+            outline-offset: -2px;
+        }
+
+        /* The panes wrap below all tabs, and only the pane of the checked tab is shown */
+        .twoslash-emit-tabs > .twoslash-emit-pane {
+            display: none;
+            order: 1;
+            flex-basis: 100%;
+            min-width: 0;
+            border-top: 1px solid ${cssVar("twoSlash.borderColor")};
+        }
+
+        .twoslash-emit-tabs > .twoslash-emit-radio:checked + .twoslash-emit-tab + .twoslash-emit-pane {
+            display: block;
+        }
+
+        .twoslash-emit-pane-title {
+            display: none;
+            padding: 0.25rem 1rem;
+            font-family: ${cssVar("uiFontFamily")};
+            font-size: 0.85rem;
+            opacity: 0.7;
+            border-bottom: 1px solid ${cssVar("twoSlash.borderColor")};
+        }
+
+        .twoslash-emit-side-by-side {
+            display: grid;
+            grid-auto-columns: minmax(0, 1fr);
+            grid-auto-flow: column;
+        }
+
+        .twoslash-emit-side-by-side > .twoslash-emit-radio,
+        .twoslash-emit-side-by-side > .twoslash-emit-tab {
+            display: none;
+        }
+
+        .twoslash-emit-side-by-side .twoslash-emit-pane-title {
+            display: block;
+        }
+
+        .twoslash-emit-side-by-side > .twoslash-emit-pane ~ .twoslash-emit-pane {
+            border-left: 1px solid ${cssVar("twoSlash.borderColor")};
+        }
+    `;
+
 	const styles = [
 		// Base styles
 		baseCSS,
@@ -693,6 +1212,9 @@ export function getTwoSlashBaseStyles({ cssVar }: ResolverContext): string {
 		highlightCSS,
 		// Custom tag styles
 		customTagCSS,
+		customTagColorCSS,
+		// Emitted files styles
+		emitCSS,
 	];
 
 	return styles.join("\n");
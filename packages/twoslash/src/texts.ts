@@ -0,0 +1,91 @@
+import { PluginTexts } from "@expressive-code/core";
+import type { TwoslashTexts } from "./types";
+
+/**
+ * The texts shown by the plugin, in the locale of each code block.
+ *
+ * Use `addLocale` to add a language, or `overrideTexts` to change single texts of a language.
+ */
+export const pluginTwoslashTexts = new PluginTexts<TwoslashTexts>({
+	errorLevelError: "Error",
+	errorLevelWarning: "Warning",
+	errorLevelSuggestion: "Suggestion",
+	errorLevelMessage: "Message",
+	errorExplanation: "What does this mean?",
+	errorSummary: "Problems",
+	errorCountErrorOne: "{count} error",
+	errorCountErrorOther: "{count} errors",
+	errorCountWarningOne: "{count} warning",
+	errorCountWarningOther: "{count} warnings",
+	errorCountSuggestionOne: "{count} suggestion",
+	errorCountSuggestionOther: "{count} suggestions",
+	errorCountMessageOne: "{count} message",
+	errorCountMessageOther: "{count} messages",
+	processingError: "Twoslash error",
+	customTagAnnotate: "Message",
+	customTagLog: "Log",
+	customTagWarn: "Warning",
+	customTagError: "Error",
+	copyType: "Copy type",
+	copyLink: "Copy link",
+	copied: "Copied!",
+	closePopup: "Close",
+	footnotes: "Types",
+	emitSource: "Source",
+});
+
+pluginTwoslashTexts.addLocale("de", {
+	errorLevelError: "Fehler",
+	errorLevelWarning: "Warnung",
+	errorLevelSuggestion: "Vorschlag",
+	errorLevelMessage: "Meldung",
+	errorExplanation: "Was bedeutet das?",
+	errorSummary: "Probleme",
+	errorCountErrorOne: "{count} Fehler",
+	errorCountErrorOther: "{count} Fehler",
+	errorCountWarningOne: "{count} Warnung",
+	errorCountWarningOther: "{count} Warnungen",
+	errorCountSuggestionOne: "{count} Vorschlag",
+	errorCountSuggestionOther: "{count} Vorschläge",
+	errorCountMessageOne: "{count} Meldung",
+	errorCountMessageOther: "{count} Meldungen",
+	processingError: "Twoslash-Fehler",
+	customTagAnnotate: "Meldung",
+	customTagLog: "Log",
+	customTagWarn: "Warnung",
+	customTagError: "Fehler",
+	copyType: "Typ kopieren",
+	copyLink: "Link kopieren",
+	copied: "Kopiert!",
+	closePopup: "Schließen",
+	footnotes: "Typen",
+	emitSource: "Quelle",
+});
+
+pluginTwoslashTexts.addLocale("ja", {
+	errorLevelError: "エラー",
+	errorLevelWarning: "警告",
+	errorLevelSuggestion: "提案",
+	errorLevelMessage: "メッセージ",
+	errorExplanation: "これはどういう意味ですか？",
+	errorSummary: "問題",
+	errorCountErrorOne: "エラー {count} 件",
+	errorCountErrorOther: "エラー {count} 件",
+	errorCountWarningOne: "警告 {count} 件",
+	errorCountWarningOther: "警告 {count} 件",
+	errorCountSuggestionOne: "提案 {count} 件",
+	errorCountSuggestionOther: "提案 {count} 件",
+	errorCountMessageOne: "メッセージ {count} 件",
+	errorCountMessageOther: "メッセージ {count} 件",
+	processingError: "Twoslash エラー",
+	customTagAnnotate: "メッセージ",
+	customTagLog: "ログ",
+	customTagWarn: "警告",
+	customTagError: "エラー",
+	copyType: "型をコピー",
+	copyLink: "リンクをコピー",
+	copied: "コピーしました！",
+	closePopup: "閉じる",
+	footnotes: "型",
+	emitSource: "ソース",
+});
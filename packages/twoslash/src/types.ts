@@ -1,5 +1,13 @@
+import type { UnresolvedStyleValue } from "@expressive-code/core";
 import type { Element } from "@expressive-code/core/hast";
-import type { TwoslashOptions } from "twoslash";
+import type {
+	NodeError,
+	NodeHover,
+	NodeTag,
+	TwoslashOptions,
+	TwoslashReturn,
+} from "twoslash";
+import type { CompletionEntry } from "typescript";
 import type { completionIcons } from "./icons/completionIcons";
 import type { customTagsIcons } from "./icons/customTagsIcons";
 
@@ -40,6 +48,40 @@ export interface PluginTwoslashOptions {
 	 */
 	readonly allowNonStandardJsDocTags?: boolean;
 
+	/**
+	 * Resolves the symbols referenced by JSDoc `{@link Symbol}` and `{@linkcode Symbol}` tags
+	 * in popups to URLs, e.g. pages of your API reference.
+	 *
+	 * Links to URLs (`{@link https://example.com}`) are always rendered as links. Symbols
+	 * without a resolved URL are rendered as code.
+	 *
+	 * @example (symbolName) => `/api/${symbolName.toLowerCase()}/`
+	 * @default undefined
+	 */
+	readonly linkResolver?: TwoslashLinkResolver;
+
+	/**
+	 * How the contents of hover popups are included in the page.
+	 *
+	 * - `inline`: Every hover contains its rendered popup.
+	 * - `island`: Each distinct popup of a page is included once, in a `<template>` island at
+	 *   the end of the page. The popups are created from the island when a hover is first opened.
+	 *
+	 * The `island` output reduces the size of pages with many hovers, but the popups
+	 * are only shown when JavaScript is enabled. The `focus` fallback of `popups.fallback`
+	 * has no popups to show, use the `footnotes` fallback instead.
+	 *
+	 * @default "inline"
+	 */
+	readonly popupOutput?: TwoslashPopupOutput;
+
+	/**
+	 * Options for the interactions with hover popups.
+	 *
+	 * @default {}
+	 */
+	readonly popups?: TwoslashPopupOptions;
+
 	/**
 	 * The languages to apply this transformer to.
 	 *
@@ -53,6 +95,481 @@ export interface PluginTwoslashOptions {
 	 * @default {}
 	 */
 	readonly twoslashOptions?: TwoslashOptions;
+
+	/**
+	 * Persist Twoslash results and their rendered popups on disk, so that
+	 * unchanged code blocks are not processed again on the next build.
+	 *
+	 * If `true`, the cache is enabled with the default options.
+	 *
+	 * @default false
+	 */
+	readonly cache?: boolean | TwoslashCacheOptions;
+
+	/**
+	 * Determines what happens when Twoslash fails to process a code block, e.g. because of
+	 * unexpected errors without an `@errors` flag or a missing `@include`.
+	 *
+	 * - `"throw"`: Logs the error with the location of the code block and fails the build.
+	 * - `"warn"`: Logs a warning with the location of the code block and renders it without Twoslash annotations.
+	 * - `"render"`: Same as `"warn"`, but also renders a box describing the error below the code block.
+	 *
+	 * @default "throw"
+	 */
+	readonly onError?: "throw" | "warn" | "render";
+
+	/**
+	 * How errors are shown, where they are underlined in the code.
+	 * Can be overridden per code block with the `errorDisplay` meta option, e.g. `errorDisplay="inline"`.
+	 *
+	 * - `box`: A box with the full error is shown below its line.
+	 * - `hover`: The full error is shown in a popup when its underline is hovered.
+	 * - `inline`: The first line of the error is shown at the end of its line, truncated if it is too long.
+	 * - `summary`: The full errors are listed in one collapsible section below the code block.
+	 *
+	 * @default "box"
+	 */
+	readonly errorDisplay?: TwoslashErrorDisplay;
+
+	/**
+	 * Shows a footer below code blocks with errors, counting the errors per level and linking to their lines.
+	 * Can be overridden per code block with the `errorFooter` meta option, e.g. `errorFooter=false`.
+	 *
+	 * @default false
+	 */
+	readonly errorFooter?: boolean;
+
+	/**
+	 * Which lines the line markers of other plugins (e.g. `{3-5}`, `ins={2}` or `del={4}`) refer to,
+	 * as Twoslash removes lines like `// ^?` queries, `// @errors` flags and cut code.
+	 * Can be overridden per code block with the `lineMarkers` meta option, e.g. `lineMarkers="rendered"`.
+	 *
+	 * - `authored`: The lines of the code as written, so markers stay on the code they were set for.
+	 * - `rendered`: The lines of the code as rendered, after Twoslash removed lines.
+	 *
+	 * @default "authored"
+	 */
+	readonly lineMarkers?: TwoslashLineMarkers;
+
+	/**
+	 * Turns the error code (e.g. `ts(2322)`) in error boxes into a link to an explanation page.
+	 *
+	 * Either a template, where `{code}` is replaced with the error code, or a function that
+	 * receives the error and returns the URL (or `undefined` to render the code as text).
+	 *
+	 * @example "https://typescript.tv/errors/ts{code}"
+	 * @default undefined
+	 */
+	readonly errorCodeUrl?: string | ((error: NodeError) => string | undefined);
+
+	/**
+	 * Shows a short explanation of the error in an expandable section of error boxes.
+	 *
+	 * If `true`, the bundled explanations of the most common error codes are used. An object adds
+	 * explanations (or replaces bundled ones), keyed by error code.
+	 *
+	 * @example { 2322: "The value does not match its type." }
+	 * @default false
+	 */
+	readonly errorExplanations?: boolean | Readonly<Record<number, string>>;
+
+	/**
+	 * Produces the text of TypeScript diagnostics in the locale of the code block, using the
+	 * localized messages bundled with the compiler (e.g. `de`, `ja` or `zh-cn`).
+	 *
+	 * Locales without bundled messages fall back to English.
+	 *
+	 * @default false
+	 */
+	readonly localizeDiagnostics?: boolean;
+
+	/**
+	 * Path to a tsconfig file (relative to the current working directory) to load compiler options from.
+	 *
+	 * The file is resolved with the TypeScript API, including `extends`, so that code samples
+	 * type-check like your source files. The loaded options override the plugin defaults and are
+	 * overridden by `twoslashOptions.compilerOptions` and `// @` flags in the code blocks.
+	 *
+	 * @example "./tsconfig.json"
+	 * @default undefined
+	 */
+	readonly tsconfig?: string;
+
+	/**
+	 * The directory that `// @include-file: ./path/to/file.ts` markers are resolved from.
+	 *
+	 * A named section of the file can be included with `// @include-file: ./file.ts#section`,
+	 * using the same `// - section` markers as `include` code blocks.
+	 *
+	 * @default process.cwd()
+	 */
+	readonly includesRoot?: string;
+
+	/**
+	 * Markdown files, or directories of Markdown files, to scan for `include` code blocks before any code block is processed.
+	 *
+	 * The document of each code block is always scanned before its code blocks are processed, so includes
+	 * defined anywhere on the same page just work. Includes defined on other pages resolve regardless of the
+	 * order in which the pages are rendered only if their files are scanned here. Set this to your content
+	 * directories if they are not the default ones, or to `[]` to skip scanning.
+	 *
+	 * @example ["./docs"]
+	 * @default ["src/content", "src/pages"] // where they exist
+	 */
+	readonly includeSources?: string[];
+
+	/**
+	 * Called when a document is rendered again (e.g. in dev mode) and includes it defines were changed or removed.
+	 *
+	 * The documents using those includes are not rendered again automatically, and no files are changed.
+	 * Use this callback to trigger a reload of them in your dev server.
+	 *
+	 * @default Logs the changed includes and the documents using them.
+	 */
+	readonly onIncludesChange?: (change: TwoslashIncludesChange) => void;
+
+	/**
+	 * How code blocks with the `emit` meta option show their source and emitted files.
+	 *
+	 * - `"tabs"`: Shows one file at a time, with tabs to switch between them.
+	 * - `"side-by-side"`: Shows all files next to each other.
+	 *
+	 * Can be overridden per code block with the `emitLayout` meta option.
+	 *
+	 * @default "tabs"
+	 */
+	readonly emitLayout?: TwoslashEmitLayout;
+
+	/**
+	 * Options for the completion lists rendered for `^|` queries.
+	 */
+	readonly completions?: TwoslashCompletionOptions;
+
+	/**
+	 * Renderers for custom tags like `// @tip: Some text`, keyed by the tag name.
+	 *
+	 * The tags are added to `twoslashOptions.customTags` automatically. The built-in tags
+	 * (`annotate`, `log`, `warn` and `error`) can be customized as well.
+	 *
+	 * @example { tip: { label: "Tip", color: "#3fb950" } }
+	 * @default {}
+	 */
+	readonly customTagRenderers?: Record<string, TwoslashCustomTagRenderer>;
+}
+
+/**
+ * Resolves the symbol of a JSDoc link to a URL.
+ *
+ * @param symbolName - The symbol referenced by the link, e.g. `Foo` or `Foo.bar`.
+ * @param context - Information about the link and the popup it is rendered in.
+ * @returns The URL of the symbol, or `undefined` to render the symbol as code.
+ */
+export type TwoslashLinkResolver = (
+	symbolName: string,
+	context: TwoslashLinkContext,
+) => string | undefined | Promise<string | undefined>;
+
+/**
+ * Interface representing the context of a JSDoc link passed to the `linkResolver`.
+ */
+export interface TwoslashLinkContext {
+	/**
+	 * The JSDoc tag of the link.
+	 */
+	readonly tag: "link" | "linkcode" | "linkplain";
+
+	/**
+	 * The label of the link, e.g. `the foo` for `{@link Foo | the foo}`.
+	 */
+	readonly label: string | undefined;
+
+	/**
+	 * The type information of the popup the link is rendered in.
+	 */
+	readonly text: string;
+}
+
+/**
+ * How the contents of hover popups are included in the page.
+ */
+export type TwoslashPopupOutput = "inline" | "island";
+
+/**
+ * Options for the interactions with hover popups.
+ *
+ * Popups open when their hover is pointed at or focused, and are pinned open by clicking
+ * or tapping the hover. Pinned popups close with their close button, `Escape`, or a click elsewhere.
+ */
+export interface TwoslashPopupOptions {
+	/**
+	 * The delay in milliseconds before a popup opens when its hover is pointed at.
+	 *
+	 * @default 0
+	 */
+	readonly openDelay?: number;
+
+	/**
+	 * The delay in milliseconds before a popup closes when the pointer leaves its hover or the popup.
+	 *
+	 * @default 100
+	 */
+	readonly closeDelay?: number;
+
+	/**
+	 * The preferred placement of popups relative to their hover.
+	 *
+	 * @default "bottom-start"
+	 */
+	readonly placement?: TwoslashPopupPlacement;
+
+	/**
+	 * The distance in pixels between popups and their hover.
+	 *
+	 * @default 8
+	 */
+	readonly offset?: number;
+
+	/**
+	 * If `true`, popups move to the opposite side of their hover when they do not fit on the preferred side.
+	 *
+	 * @default true
+	 */
+	readonly flip?: boolean;
+
+	/**
+	 * If `true`, popups are shifted along their hover to stay inside their scrolling containers and the viewport.
+	 *
+	 * @default true
+	 */
+	readonly shift?: boolean;
+
+	/**
+	 * The minimum distance in pixels between popups and the edges of their scrolling containers and the viewport.
+	 *
+	 * @default 8
+	 */
+	readonly padding?: number;
+
+	/**
+	 * If `true`, popups have an arrow pointing at their hover.
+	 *
+	 * @default true
+	 */
+	readonly arrow?: boolean;
+
+	/**
+	 * If `true`, popups have an action bar with buttons to copy their type and a link to them.
+	 *
+	 * Opening a copied link opens the popup it points to.
+	 *
+	 * @default false
+	 */
+	readonly actions?: boolean;
+
+	/**
+	 * How the contents of hovers are shown when JavaScript is disabled.
+	 *
+	 * - `focus`: Popups are shown with CSS while their hover is pointed at or focused.
+	 *   Not available for popups rendered as an island.
+	 * - `footnotes`: The types and docs of the hovers are listed below the code block.
+	 *   The list is also shown where no styles are applied, e.g. in RSS readers.
+	 * - `none`: The contents of hovers are not shown.
+	 *
+	 * @default "focus"
+	 */
+	readonly fallback?: TwoslashPopupFallback;
+}
+
+/**
+ * Which lines the line markers of other plugins refer to.
+ */
+export type TwoslashLineMarkers = "authored" | "rendered";
+
+/**
+ * How errors are shown, where they are underlined in the code.
+ */
+export type TwoslashErrorDisplay = "box" | "hover" | "inline" | "summary";
+
+/**
+ * How the contents of hovers are shown when JavaScript is disabled.
+ */
+export type TwoslashPopupFallback = "focus" | "footnotes" | "none";
+
+/**
+ * The placement of a popup relative to its hover.
+ */
+export type TwoslashPopupPlacement =
+	| "top"
+	| "top-start"
+	| "top-end"
+	| "right"
+	| "right-start"
+	| "right-end"
+	| "bottom"
+	| "bottom-start"
+	| "bottom-end"
+	| "left"
+	| "left-start"
+	| "left-end";
+
+/**
+ * The layout of the source and the emitted files of a code block.
+ */
+export type TwoslashEmitLayout = "tabs" | "side-by-side";
+
+/**
+ * A file emitted by the TypeScript compiler for the code of a code block.
+ */
+export interface TwoslashEmittedFile {
+	/**
+	 * The name of the file, e.g. `index.d.ts`.
+	 */
+	filename: string;
+
+	/**
+	 * The content of the file.
+	 */
+	code: string;
+
+	/**
+	 * The language used to highlight the file.
+	 */
+	language: string;
+}
+
+/**
+ * Interface representing how a custom tag is rendered.
+ */
+export interface TwoslashCustomTagRenderer {
+	/**
+	 * The label shown in front of the tag text.
+	 *
+	 * @default The tag name, capitalized.
+	 */
+	readonly label?: string;
+
+	/**
+	 * The icon shown in front of the label, as a HAST element (e.g. an `svg` using `currentColor`).
+	 */
+	readonly icon?: Element;
+
+	/**
+	 * The color of the tag box.
+	 *
+	 * Registered as the `twoSlash.customTag<Name>Color` style setting (e.g. `customTagTipColor`
+	 * for the `tip` tag), so it can be changed per theme with `styleOverrides`.
+	 */
+	readonly color?: UnresolvedStyleValue;
+
+	/**
+	 * Renders the box of the tag, replacing the default label, icon and color.
+	 *
+	 * @param tag - The tag to render.
+	 * @returns The element shown below the line of the tag.
+	 */
+	readonly render?: (tag: NodeTag) => Element;
+}
+
+/**
+ * Interface representing the options for completion lists.
+ */
+export interface TwoslashCompletionOptions {
+	/**
+	 * The maximum number of items shown in a completion list.
+	 *
+	 * @default 5
+	 */
+	readonly limit?: number;
+
+	/**
+	 * If `true`, only items starting with the typed prefix are shown.
+	 *
+	 * @default false
+	 */
+	readonly filterByPrefix?: boolean;
+
+	/**
+	 * The order of the items in a completion list.
+	 *
+	 * - `"default"`: The order returned by the language service.
+	 * - `"sortText"`: The relevance order used by editors, based on the `sortText` of each item.
+	 * - `"name"`: Alphabetical order.
+	 *
+	 * @default "default"
+	 */
+	readonly sort?: "default" | "sortText" | "name";
+
+	/**
+	 * If `true`, shows the signature and documentation of the first item next to the completion list.
+	 *
+	 * @default false
+	 */
+	readonly details?: boolean;
+}
+
+/**
+ * Interface describing an include marker that was replaced with the code of its include.
+ */
+export interface TwoslashIncludeExpansion {
+	/**
+	 * The position of the marker in the code of the code block.
+	 */
+	readonly index: number;
+
+	/**
+	 * The length of the marker.
+	 */
+	readonly length: number;
+
+	/**
+	 * The length of the code the marker was replaced with.
+	 */
+	readonly replacementLength: number;
+}
+
+/**
+ * Interface describing includes that changed while rendering a document again.
+ */
+export interface TwoslashIncludesChange {
+	/**
+	 * The keys of the includes that were changed or removed.
+	 */
+	readonly includes: string[];
+
+	/**
+	 * The absolute paths of the other documents that use these includes.
+	 */
+	readonly documents: string[];
+}
+
+/**
+ * Interface representing the options for the on-disk Twoslash cache.
+ */
+export interface TwoslashCacheOptions {
+	/**
+	 * The directory to store the cache entries in, relative to the current working directory.
+	 *
+	 * @default "node_modules/.cache/expressive-code-twoslash"
+	 */
+	readonly dir?: string;
+
+	/**
+	 * An additional string that is part of every cache key.
+	 *
+	 * Functions in the options (like `linkResolver`, `customTagRenderers` or `twoslashOptions.filterNode`)
+	 * are part of the keys by their source code only. Change this key to invalidate all existing entries
+	 * when their results change without a change to their source, e.g. when they read other files or state.
+	 *
+	 * @default ""
+	 */
+	readonly key?: string;
+
+	/**
+	 * The maximum age of a cache entry in milliseconds. Older entries are ignored and replaced.
+	 *
+	 * @default undefined (entries never expire)
+	 */
+	readonly maxAge?: number;
 }
 
 /**
@@ -177,6 +694,10 @@ interface TwoSlashErrorAndCustomTagsStyles {
 	 * Style (Message Color) for the Twoslash Custom Annotations
 	 */
 	messageColor: string;
+	/**
+	 * Style (Color) for the custom tags defined in `customTagRenderers`, e.g. `customTagTipColor`
+	 */
+	[customTagColor: `customTag${string}Color`]: string;
 }
 
 interface TwoSlashCompletionStyles {
@@ -236,6 +757,42 @@ interface TwoSlashCompletionStyles {
 	 * Style (Interface Icon) for the Twoslash Completion Icons
 	 */
 	completionIconInterface: string;
+	/**
+	 * Style (Variable Icon) for the Twoslash Completion Icons
+	 */
+	completionIconVariable: string;
+	/**
+	 * Style (Constant Icon) for the Twoslash Completion Icons
+	 */
+	completionIconConstant: string;
+	/**
+	 * Style (Enum Icon) for the Twoslash Completion Icons
+	 */
+	completionIconEnum: string;
+	/**
+	 * Style (Enum Member Icon) for the Twoslash Completion Icons
+	 */
+	completionIconEnumMember: string;
+	/**
+	 * Style (Keyword Icon) for the Twoslash Completion Icons
+	 */
+	completionIconKeyword: string;
+	/**
+	 * Style (Type Parameter Icon) for the Twoslash Completion Icons
+	 */
+	completionIconTypeParameter: string;
+	/**
+	 * Style (Text Icon) for the Twoslash Completion Icons
+	 */
+	completionIconText: string;
+	/**
+	 * Style (File Icon) for the Twoslash Completion Icons
+	 */
+	completionIconFile: string;
+	/**
+	 * Style (Folder Icon) for the Twoslash Completion Icons
+	 */
+	completionIconFolder: string;
 }
 
 /**
@@ -268,8 +825,67 @@ export type CompletionItem = {
 		name: string;
 		kind: string;
 		icon: Element;
+		iconName: CompletionIcon;
 		isDeprecated: boolean;
 	}[];
+	details?: TwoslashPopupContent | undefined;
+};
+
+/**
+ * The type text and documentation a popup is rendered from, e.g. of a hover or a completion entry.
+ */
+export type TwoslashPopupContent = Pick<NodeHover, "text" | "docs" | "tags">;
+
+/**
+ * A completion entry returned by the language service, with its details if they were requested.
+ */
+export type CompletionEntryWithDetails = CompletionEntry & {
+	details?: TwoslashPopupContent;
+};
+
+/**
+ * A message of a diagnostic message chain, with the messages nested below it.
+ */
+export interface TwoslashMessageChain {
+	text: string;
+	next: TwoslashMessageChain[];
+}
+
+/**
+ * A location related to an error, e.g. where a variable is declared.
+ */
+export interface TwoslashRelatedInformation {
+	/**
+	 * The message of the location, e.g. `'x' is declared here.`
+	 */
+	text: string;
+
+	/**
+	 * The name of the file of the location.
+	 */
+	filename?: string;
+
+	/**
+	 * The zero-based line of the location.
+	 */
+	line?: number;
+
+	/**
+	 * The zero-based character of the location.
+	 */
+	character?: number;
+
+	/**
+	 * If `true`, the location is shown in the code block and `line` is a line of the code block.
+	 */
+	inCodeBlock?: boolean;
+}
+
+/**
+ * A Twoslash error, with the related information of its diagnostic if there is any.
+ */
+export type NodeErrorWithRelatedInformation = NodeError & {
+	related?: TwoslashRelatedInformation[];
 };
 
 /**
@@ -306,6 +922,15 @@ export type CustomTagsIcon = keyof typeof customTagsIcons;
  * @property {Element} interface - Icon for an interface.
  * @property {Element} function - Icon for a function.
  * @property {Element} string - Icon for a string.
+ * @property {Element} variable - Icon for a variable, parameter or alias.
+ * @property {Element} constant - Icon for a constant.
+ * @property {Element} enum - Icon for an enum.
+ * @property {Element} enumMember - Icon for an enum member.
+ * @property {Element} keyword - Icon for a keyword or primitive type.
+ * @property {Element} typeParameter - Icon for a type alias or type parameter.
+ * @property {Element} text - Icon for plain text, labels and unknown kinds.
+ * @property {Element} file - Icon for a script.
+ * @property {Element} folder - Icon for a directory.
  */
 export type CompletionIcons = {
 	module: Element;
@@ -316,6 +941,15 @@ export type CompletionIcons = {
 	interface: Element;
 	function: Element;
 	string: Element;
+	variable: Element;
+	constant: Element;
+	enum: Element;
+	enumMember: Element;
+	keyword: Element;
+	typeParameter: Element;
+	text: Element;
+	file: Element;
+	folder: Element;
 };
 
 /**
@@ -334,6 +968,54 @@ export type CompletionIcon = keyof typeof completionIcons;
  */
 export type TwoslashTag = "annotate" | "log" | "warn" | "error";
 
+/**
+ * Represents the texts shown by the plugin, localized with `pluginTwoslashTexts`.
+ */
+export type TwoslashTexts = {
+	errorLevelError: string;
+	errorLevelWarning: string;
+	errorLevelSuggestion: string;
+	errorLevelMessage: string;
+	errorExplanation: string;
+	errorSummary: string;
+	errorCountErrorOne: string;
+	errorCountErrorOther: string;
+	errorCountWarningOne: string;
+	errorCountWarningOther: string;
+	errorCountSuggestionOne: string;
+	errorCountSuggestionOther: string;
+	errorCountMessageOne: string;
+	errorCountMessageOther: string;
+	processingError: string;
+	customTagAnnotate: string;
+	customTagLog: string;
+	customTagWarn: string;
+	customTagError: string;
+	copyType: string;
+	copyLink: string;
+	copied: string;
+	closePopup: string;
+	footnotes: string;
+	emitSource: string;
+} & TwoslashErrorCountTexts;
+
+/**
+ * The levels of errors counted in the error footer, as used in the keys of their texts.
+ */
+export type TwoslashErrorCountLevel =
+	| "Error"
+	| "Warning"
+	| "Suggestion"
+	| "Message";
+
+/**
+ * Represents the texts counting the errors of a level in the plural categories that only some
+ * languages use, e.g. `errorCountErrorFew`. Categories without a text use the `Other` text.
+ */
+export type TwoslashErrorCountTexts = {
+	[Key in `errorCount${TwoslashErrorCountLevel}${"Zero" | "Two" | "Few" | "Many"}`]?: string;
+};
+
 /**
  * Represents the structure for rendering JSDocs.
  *
@@ -344,3 +1026,35 @@ export type RenderJSDocs = {
 	docs: Element | never[];
 	tags: Element | never[];
 };
+
+/**
+ * Represents the rendered contents of a hover or query popup.
+ *
+ * @property {Element} codeType - The rendered type information.
+ * @property {RenderJSDocs} renderedDocs - The rendered JSDoc documentation and tags.
+ */
+export type TwoslashPopup = {
+	codeType: Element;
+	renderedDocs: RenderJSDocs;
+};
+
+/**
+ * Represents the JSON serializable part of a Twoslash result.
+ */
+export type TwoslashCachedReturn = Pick<
+	TwoslashReturn,
+	"code" | "nodes" | "meta"
+>;
+
+/**
+ * Represents an entry of the on-disk Twoslash cache.
+ *
+ * @property {TwoslashCachedReturn} twoslash - The serialized Twoslash result.
+ * @property {Record<string, TwoslashPopup>} popups - The rendered popups, keyed by node type and position.
+ * @property {TwoslashEmittedFile[]} emitted - The emitted files shown next to the source, if any.
+ */
+export type TwoslashCacheEntry = {
+	twoslash: TwoslashCachedReturn;
+	popups: Record<string, TwoslashPopup>;
+	emitted?: TwoslashEmittedFile[];
+};